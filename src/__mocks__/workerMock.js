@@ -0,0 +1,21 @@
+class WorkerMock {
+  constructor() {
+    this.messages = [];
+    this.onmessage = null;
+    this.onerror = null;
+    this.terminated = false;
+    WorkerMock.instances.push(this);
+  }
+
+  postMessage(message) {
+    this.messages.push(message);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+WorkerMock.instances = [];
+
+module.exports = WorkerMock;
@@ -6,17 +6,34 @@ import App from '../App';
 // Mock all external dependencies
 jest.mock('../lib/ascii', () => ({
   AsciiConverter: jest.fn().mockImplementation(() => ({
-    convertVideoFrame: jest.fn(() => ({
-      ascii: '@@@\n@@@\n@@@',
-      colors: ['rgb(255,0,0)', 'rgb(0,255,0)', 'rgb(0,0,255)']
+    convertFrame: jest.fn((_frame, _cols, _rows, _lut, settings) => ({
+      cols: 3,
+      rows: 3,
+      chars: [['@', '@', '@'], ['@', '@', '@'], ['@', '@', '@']],
+      luminance: new Uint8Array(9).fill(255),
+      colors: new Uint8ClampedArray(3 * 3 * 3).fill(255),
+      settings,
+      timestamp: 0
     }))
   })),
+  ANSI_16_PALETTE: jest.requireActual('../lib/ascii').ANSI_16_PALETTE,
   CHARSETS: {
     simple: ' .:-=+*#%@',
     detailed: ' .\'`^",:;Il!i><~+_-?][}{1)(|/tfjrxnuvczXYUJCLQ0OZmwqpdbkhao*#MW&8%B@$',
-    blocks: ' ░▒▓█'
+    blocks: ' ░▒▓█',
+    braille: '⠀⠁⠃⠇⡇⡏⡟⡿⣿',
+    halfblock: ' ▀▄█'
   },
-  createBrightnessLUT: jest.fn(() => Array(256).fill('@'))
+  DEFAULT_ADJUSTMENTS: jest.requireActual('../lib/ascii').DEFAULT_ADJUSTMENTS,
+  DEFAULT_STABILIZATION: jest.requireActual('../lib/ascii').DEFAULT_STABILIZATION,
+  ansi256ToRgb: jest.requireActual('../lib/ascii').ansi256ToRgb,
+  calculateGridDimensions: jest.requireActual('../lib/ascii').calculateGridDimensions,
+  createBrightnessLUT: jest.fn(() => Array(256).fill('@')),
+  diffFrames: jest.requireActual('../lib/ascii').diffFrames,
+  frameToAnsi: jest.requireActual('../lib/ascii').frameToAnsi,
+  frameToText: jest.requireActual('../lib/ascii').frameToText,
+  groupColorRuns: jest.requireActual('../lib/ascii').groupColorRuns,
+  resolveFrameChanges: jest.requireActual('../lib/ascii').resolveFrameChanges
 }));
 
 // Mock browser APIs
@@ -0,0 +1,57 @@
+import React, { useLayoutEffect, useRef } from 'react';
+import { createRenderer } from '../lib/renderers';
+import type { AsciiRenderer } from '../lib/renderers';
+import type { AsciiFrame, RendererKind } from '../types/ascii';
+
+interface AsciiDisplayProps {
+  frame: AsciiFrame | null;
+  /** Output renderer, switchable at any time */
+  renderer?: RendererKind;
+  className?: string;
+  style?: React.CSSProperties;
+  /** Shown while there is no frame */
+  placeholder?: React.ReactNode;
+}
+
+export const AsciiDisplay: React.FC<AsciiDisplayProps> = ({
+  frame,
+  renderer: kind = 'dom',
+  className,
+  style,
+  placeholder
+}) => {
+  // Output is managed by the renderer, React never renders into this element
+  const outputRef = useRef<HTMLDivElement>(null);
+  const rendererRef = useRef<AsciiRenderer | null>(null);
+
+  useLayoutEffect(() => {
+    if (!outputRef.current) return;
+
+    const renderer = createRenderer(kind, outputRef.current);
+    rendererRef.current = renderer;
+
+    return () => {
+      renderer.dispose();
+      rendererRef.current = null;
+    };
+  }, [kind]);
+
+  // Runs after the effect above, so a new renderer starts with the current frame
+  useLayoutEffect(() => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+
+    if (frame) {
+      renderer.render(frame);
+    } else {
+      renderer.clear();
+    }
+  }, [frame, kind]);
+
+  return (
+    <div className={className} style={style}>
+      {!frame && placeholder}
+      <div ref={outputRef} />
+    </div>
+  );
+};
@@ -1,36 +1,59 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { 
   AsciiConverter, 
-  CHARSETS, 
   createBrightnessLUT, 
-  calculateGridDimensions 
+  calculateGridDimensions,
+  frameToText
 } from '../lib/ascii';
-import type { CharsetName, AsciiMirrorSettings } from '../types/ascii';
+import { resolveCharset } from '../lib/charsets';
+import { ImageSource, VideoFileSource, WebcamSource } from '../lib/frameSources';
+import type { FrameSource } from '../lib/frameSources';
+import { AsciiDisplay } from './AsciiDisplay';
+import type { CharsetName, AsciiMirrorSettings, AsciiFrame, CustomCharset } from '../types/ascii';
 
 interface AsciiMirrorProps {
   settings: AsciiMirrorSettings;
   onError: (error: string) => void;
   onSnapshot: (ascii: string) => void;
+  customCharsets?: CustomCharset[];
+  /** Source started on mount instead of the webcam, e.g. a synthetic one in tests */
+  createSource?: (video: HTMLVideoElement) => FrameSource;
 }
 
+const NO_CUSTOM_CHARSETS: CustomCharset[] = [];
+
 export const AsciiMirror: React.FC<AsciiMirrorProps> = ({
   settings,
   onError,
-  onSnapshot
+  onSnapshot,
+  customCharsets = NO_CUSTOM_CHARSETS,
+  createSource
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const streamRef = useRef<MediaStream | null>(null);
+  // Active input; the animation loop converts whatever it provides
+  const sourceRef = useRef<FrameSource | null>(null);
+  const unsubscribeSourceRef = useRef<(() => void) | null>(null);
+  // Pushing sources are converted only after a new frame or a settings change
+  const pendingFrameRef = useRef<boolean>(true);
   const converterRef = useRef<AsciiConverter | null>(null);
   const animationFrameRef = useRef<number | null>(null);
   const lastFrameTimeRef = useRef<number>(0);
   const imageInputRef = useRef<HTMLInputElement>(null);
+  const videoInputRef = useRef<HTMLInputElement>(null);
   const initTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   
-  const [ascii, setAscii] = useState<string>('');
-  const [colors, setColors] = useState<string[]>([]);
+  const [frame, setFrame] = useState<AsciiFrame | null>(null);
   const [isWebcamAvailable, setIsWebcamAvailable] = useState<boolean>(true);
   const [isInitialized, setIsInitialized] = useState<boolean>(false);
   const [dimensions, setDimensions] = useState<{ cols: number; rows: number }>({ cols: 80, rows: 24 });
+  const [sourceSize, setSourceSize] = useState<{ width: number; height: number } | null>(null);
+
+  // Local video file playing instead of the camera
+  const [videoFile, setVideoFile] = useState<{ name: string } | null>(null);
+  const [isVideoPlaying, setIsVideoPlaying] = useState<boolean>(false);
+  const [videoTime, setVideoTime] = useState<number>(0);
+  const [videoDuration, setVideoDuration] = useState<number>(0);
+  const [isVideoLooping, setIsVideoLooping] = useState<boolean>(true);
   
   // Initialize ASCII converter
   useEffect(() => {
@@ -41,124 +64,164 @@ export const AsciiMirror: React.FC<AsciiMirrorProps> = ({
     }
   }, [onError]);
   
-  // Initialize webcam - simplified version
-  const initializeWebcam = useCallback(async () => {
-    console.log('Starting simple camera initialization...');
-
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          width: { ideal: 640 },
-          height: { ideal: 480 }
-        }
-      });
+  // Make a source the input of the animation loop, stopping the previous one.
+  // Resolves true only if it started and was not replaced in the meantime;
+  // failures of a replaced source are not reported.
+  const switchSource = useCallback(async (source: FrameSource): Promise<boolean> => {
+    unsubscribeSourceRef.current?.();
+    if (sourceRef.current !== source) {
+      sourceRef.current?.stop();
+    }
+    sourceRef.current = source;
+    pendingFrameRef.current = true;
+    converterRef.current?.resetTemporal();
+    setVideoFile(source instanceof VideoFileSource ? { name: source.name } : null);
 
-      console.log('Camera stream obtained');
-      streamRef.current = stream;
+    const unsubscribers = [
+      source.on('ready', () => setSourceSize({ width: source.width, height: source.height })),
+      source.on('frame', () => {
+        pendingFrameRef.current = true;
+      })
+    ];
+    unsubscribeSourceRef.current = () => unsubscribers.forEach(unsubscribe => unsubscribe());
 
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        videoRef.current.muted = true;
+    try {
+      await source.start();
+    } catch (error) {
+      if (sourceRef.current === source) throw error;
+      return false;
+    }
+    return sourceRef.current === source;
+  }, []);
 
-        videoRef.current.onloadedmetadata = () => {
-          console.log('Video metadata loaded');
-          if (videoRef.current) {
-            const { videoWidth, videoHeight } = videoRef.current;
-            if (videoWidth > 0 && videoHeight > 0) {
-              const dims = calculateGridDimensions(videoWidth, videoHeight, 80);
-              setDimensions(dims);
-              setIsWebcamAvailable(true);
-              setIsInitialized(true);
-              console.log('Camera ready with dimensions:', dims);
-            }
-          }
-        };
+  // Initialize webcam
+  const initializeWebcam = useCallback(async () => {
+    if (!videoRef.current) return;
+    console.log('Starting simple camera initialization...');
 
-        videoRef.current.play().then(() => {
-          console.log('Video playback started');
-        }).catch((err) => {
-          console.error('Play failed:', err);
-        });
-      }
+    try {
+      const started = await switchSource(new WebcamSource(videoRef.current, {
+        width: { ideal: 640 },
+        height: { ideal: 480 }
+      }));
+      // A file was opened while the camera was starting
+      if (!started) return;
+      console.log('Camera ready');
+      setIsWebcamAvailable(true);
     } catch (error) {
       console.error('Camera error:', error);
       setIsWebcamAvailable(false);
-      setIsInitialized(true);
       onError('Camera access failed');
+    } finally {
+      setIsInitialized(true);
     }
-  }, [onError]);
-  
-  // Handle video metadata loaded
-  const handleVideoLoadedMetadata = useCallback(() => {
-    if (videoRef.current) {
-      const { videoWidth, videoHeight } = videoRef.current;
-      const newDimensions = calculateGridDimensions(videoWidth, videoHeight, settings.cols);
-      setDimensions(newDimensions);
+  }, [onError, switchSource]);
+
+  // Grid follows the source size and the column setting
+  useEffect(() => {
+    if (sourceSize) {
+      setDimensions(calculateGridDimensions(sourceSize.width, sourceSize.height, settings.cols, settings.charset));
     }
-  }, [settings.cols]);
-  
+  }, [sourceSize, settings.cols, settings.charset]);
+
+  // Still images are converted again with new settings
+  useEffect(() => {
+    pendingFrameRef.current = true;
+  }, [settings, customCharsets, dimensions]);
+
   // Handle image upload
-  const handleImageUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (!file || !converterRef.current) return;
-    
-    const img = new Image();
-    img.onload = () => {
-      const newDimensions = calculateGridDimensions(img.naturalWidth, img.naturalHeight, settings.cols);
-      setDimensions(newDimensions);
-      
-      const lut = createBrightnessLUT(CHARSETS[settings.charset], settings.invert);
-      const result = converterRef.current!.convertImage(
-        img, 
-        newDimensions.cols, 
-        newDimensions.rows, 
-        lut, 
-        settings.colorMode
-      );
-      
-      setAscii(result.ascii);
-      if (result.colors) {
-        setColors(result.colors);
-      }
-    };
-    
-    img.src = URL.createObjectURL(file);
-  }, [settings.cols, settings.charset, settings.invert, settings.colorMode]);
-  
-  // Animation loop - simplified and more reliable
-  const animate = useCallback(() => {
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      await switchSource(new ImageSource(file));
+    } catch {
+      onError('Could not load image');
+    }
+  }, [switchSource, onError]);
+
+  // Play a local video file through the same conversion loop as the camera
+  const handleVideoUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
     const video = videoRef.current;
+    if (!file || !video) return;
+
+    setVideoTime(0);
+    setIsWebcamAvailable(true);
+    try {
+      await switchSource(new VideoFileSource(video, file));
+    } catch {
+      onError('Could not play video file');
+    }
+  }, [switchSource, onError]);
+
+  // Leave the video file and go back to the camera
+  const closeVideoFile = useCallback(() => {
+    setFrame(null);
+    initializeWebcam();
+  }, [initializeWebcam]);
+
+  const toggleVideoPlaying = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (video.paused) {
+      video.play().catch((err) => {
+        console.error('Play failed:', err);
+      });
+    } else {
+      video.pause();
+    }
+  }, []);
+
+  const seekVideo = useCallback((time: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = time;
+      setVideoTime(time);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.loop = isVideoLooping;
+    }
+  }, [isVideoLooping, videoFile]);
+
+  // Convert the current frame of the active source
+  const convertSourceFrame = useCallback((): AsciiFrame | null => {
+    const input = sourceRef.current?.getFrame();
     const converter = converterRef.current;
+    if (!input || !converter) return null;
 
-    if (!video || !converter || settings.isPaused) {
+    const lut = createBrightnessLUT(resolveCharset(settings.charset, customCharsets), settings.invert);
+    const result = converter.convertFrame(input, dimensions.cols, dimensions.rows, lut, settings);
+    return result.rows > 0 ? result : null;
+  }, [settings, customCharsets, dimensions.cols, dimensions.rows]);
+
+  // Animation loop - simplified and more reliable
+  const animate = useCallback(() => {
+    const source = sourceRef.current;
+
+    if (!source || settings.isPaused || (source.pushesFrames && !pendingFrameRef.current)) {
       animationFrameRef.current = requestAnimationFrame(animate);
       return;
     }
 
     try {
-      if (video.readyState >= 2 && video.videoWidth > 0 && video.videoHeight > 0) {
-        const lut = createBrightnessLUT(CHARSETS[settings.charset], settings.invert);
-        const result = converter.convertVideoFrame(
-          video,
-          dimensions.cols,
-          dimensions.rows,
-          lut,
-          settings.colorMode
-        );
-
-        if (result.ascii && result.ascii.length > 10) {
-          setAscii(result.ascii);
-          if (result.colors) {
-            setColors(result.colors);
-          }
-        }
+      const result = convertSourceFrame();
+      if (result) {
+        pendingFrameRef.current = false;
+        setFrame(result);
       }
     } catch (error) {
       console.error('Animation error:', error);
     }
 
     animationFrameRef.current = requestAnimationFrame(animate);
-  }, [settings.cols, settings.rows, settings.charset, settings.invert, settings.colorMode, settings.isPaused, dimensions.cols, dimensions.rows]);
+  }, [settings.isPaused, convertSourceFrame]);
   
   // Start/stop animation
   useEffect(() => {
@@ -178,30 +241,27 @@ export const AsciiMirror: React.FC<AsciiMirrorProps> = ({
     };
   }, [animate, settings.isPaused]);
   
-  // Update dimensions when cols change
-  useEffect(() => {
-    if (videoRef.current && videoRef.current.videoWidth > 0) {
-      const { videoWidth, videoHeight } = videoRef.current;
-      const newDimensions = calculateGridDimensions(videoWidth, videoHeight, settings.cols);
-      setDimensions(newDimensions);
-    }
-  }, [settings.cols]);
-  
   // Initialize on mount
   useEffect(() => {
     console.log('Component mounted, starting camera...');
-    initializeWebcam();
+    if (createSource && videoRef.current) {
+      switchSource(createSource(videoRef.current))
+        .then(() => setIsInitialized(true))
+        .catch(() => onError('Could not start source'));
+    } else {
+      initializeWebcam();
+    }
 
     return () => {
       // Cleanup
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach(track => track.stop());
-      }
+      unsubscribeSourceRef.current?.();
+      sourceRef.current?.stop();
+      sourceRef.current = null;
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current);
       }
     };
-  }, [initializeWebcam]);
+  }, [createSource, initializeWebcam, switchSource, onError]);
   
   // User gesture fallback to satisfy autoplay policies
   useEffect(() => {
@@ -215,6 +275,9 @@ export const AsciiMirror: React.FC<AsciiMirrorProps> = ({
     return () => window.removeEventListener('pointerdown', onPointerDown);
   }, []);
   
+  // Plain text of the current frame for snapshots and debug info
+  const ascii = useMemo(() => (frame ? frameToText(frame) : ''), [frame]);
+  
   // Handle snapshot
   const handleSnapshot = useCallback(() => {
     if (ascii) {
@@ -222,65 +285,97 @@ export const AsciiMirror: React.FC<AsciiMirrorProps> = ({
     }
   }, [ascii, onSnapshot]);
   
-  // Render ASCII with optional colors
-  const renderAscii = () => {
-    if (!ascii) return null;
-    
-    if (settings.colorMode && colors.length > 0) {
-      const lines = ascii.split('\n');
-      return (
-        <div className="ascii-display text-xs">
-          {lines.map((line, index) => (
-            <div 
-              key={index} 
-              style={{ color: colors[index] || 'currentColor' }}
-              className="block"
-            >
-              {line}
-            </div>
-          ))}
-        </div>
-      );
-    }
-    
-    return (
-      <pre className="ascii-display text-xs m-0 p-0">
-        {ascii}
-      </pre>
-    );
-  };
+  // Video element (keep in viewport; some browsers pause offscreen decoding).
+  // First child in both layouts so it stays mounted while the camera starts.
+  const videoElement = (
+    <video
+      ref={videoRef}
+      style={{ position: 'fixed', right: '8px', bottom: '8px', width: '320px', height: '240px', opacity: 0, pointerEvents: 'none' }}
+      autoPlay
+      playsInline
+      muted
+      onDurationChange={(e) => setVideoDuration(e.currentTarget.duration || 0)}
+      onTimeUpdate={(e) => setVideoTime(e.currentTarget.currentTime)}
+      onPlay={() => setIsVideoPlaying(true)}
+      onPause={() => setIsVideoPlaying(false)}
+    />
+  );
   
   if (!isInitialized) {
     return (
-      <div className="flex flex-col items-center justify-center h-64 bg-gray-800 rounded-lg space-y-4">
-        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-400"></div>
-        <div className="text-gray-400 text-center">
-          <div>Initializing camera...</div>
-          <div className="text-sm text-gray-500 mt-2">
-            Please allow camera access when prompted
+      <div className="space-y-4">
+        {videoElement}
+        <div className="flex flex-col items-center justify-center h-64 bg-gray-800 rounded-lg space-y-4">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-400"></div>
+          <div className="text-gray-400 text-center">
+            <div>Initializing camera...</div>
+            <div className="text-sm text-gray-500 mt-2">
+              Please allow camera access when prompted
+            </div>
           </div>
+          <button
+            onClick={initializeWebcam}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors text-sm"
+          >
+            Retry Camera Access
+          </button>
         </div>
-        <button
-          onClick={initializeWebcam}
-          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors text-sm"
-        >
-          Retry Camera Access
-        </button>
       </div>
     );
   }
   
   return (
     <div className="space-y-4">
-      {/* Video element (keep in viewport; some browsers pause offscreen decoding) */}
-      <video
-        ref={videoRef}
-        style={{ position: 'fixed', right: '8px', bottom: '8px', width: '320px', height: '240px', opacity: 0, pointerEvents: 'none' }}
-        autoPlay
-        playsInline
-        muted
-        onLoadedMetadata={handleVideoLoadedMetadata}
+      {videoElement}
+
+      <input
+        ref={videoInputRef}
+        type="file"
+        accept="video/*,.mp4,.webm"
+        onChange={handleVideoUpload}
+        className="hidden"
       />
+
+      {/* Transport controls for a video file */}
+      {videoFile && (
+        <div className="bg-gray-800 rounded-lg p-4 space-y-2">
+          <div className="flex items-center space-x-4 text-sm">
+            <button
+              onClick={toggleVideoPlaying}
+              className="px-4 py-2 bg-green-600 hover:bg-green-700 rounded-lg transition-colors"
+            >
+              {isVideoPlaying ? 'Pause' : 'Play'}
+            </button>
+            <label className="flex items-center space-x-2 text-gray-300">
+              <input
+                type="checkbox"
+                checked={isVideoLooping}
+                onChange={(e) => setIsVideoLooping(e.target.checked)}
+              />
+              <span>Loop</span>
+            </label>
+            <span className="text-gray-400 flex-1 truncate">
+              {videoFile.name} · {videoTime.toFixed(1)}s / {videoDuration.toFixed(1)}s
+            </span>
+            <button
+              onClick={closeVideoFile}
+              className="px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors"
+            >
+              Back to Camera
+            </button>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max={videoDuration}
+            step="0.04"
+            value={videoTime}
+            onChange={(e) => seekVideo(parseFloat(e.target.value))}
+            aria-label="Seek video"
+            className="w-full"
+          />
+        </div>
+      )}
       
       {/* Image upload fallback */}
       {!isWebcamAvailable && (
@@ -303,13 +398,19 @@ export const AsciiMirror: React.FC<AsciiMirrorProps> = ({
               />
               <button
                 onClick={() => imageInputRef.current?.click()}
-                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors mr-4"
               >
                 Upload Image
               </button>
+              <button
+                onClick={() => videoInputRef.current?.click()}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+              >
+                Open Video
+              </button>
             </div>
             <p className="text-gray-400 mt-2 text-sm">
-              Camera not available. Try to retry camera access or upload an image instead.
+              Camera not available. Try to retry camera access, upload an image or open a video file instead.
             </p>
           </div>
         </div>
@@ -326,7 +427,9 @@ export const AsciiMirror: React.FC<AsciiMirrorProps> = ({
             Paused: {settings.isPaused ? 'Yes' : 'No'}
           </div>
         </div>
-        {ascii ? renderAscii() : (
+        {ascii ? (
+          <AsciiDisplay frame={frame} renderer={settings.renderer} className="ascii-display text-xs" />
+        ) : (
           <div className="text-gray-500 text-center py-8">
             {isWebcamAvailable ? 'Processing video...' : 'No video source'}
           </div>
@@ -343,60 +446,29 @@ export const AsciiMirror: React.FC<AsciiMirrorProps> = ({
             Take Snapshot
           </button>
         )}
-        
-        {/* Debug buttons */}
-        {isInitialized && !isWebcamAvailable && streamRef.current && (
+
+        {isWebcamAvailable && !videoFile && (
           <button
-            onClick={() => {
-              console.log('Force camera activation...');
-              if (videoRef.current && streamRef.current) {
-                const video = videoRef.current;
-                console.log('Current video state:', {
-                  readyState: video.readyState,
-                  videoWidth: video.videoWidth,
-                  videoHeight: video.videoHeight,
-                  paused: video.paused
-                });
-                
-                // Force set as available if we have stream and dimensions
-                if (video.videoWidth > 0 && video.videoHeight > 0) {
-                  console.log('Forcing camera as available');
-                  setIsWebcamAvailable(true);
-                  const newDimensions = calculateGridDimensions(video.videoWidth, video.videoHeight, settings.cols);
-                  setDimensions(newDimensions);
-                } else if (video.videoWidth === 0) {
-                  console.log('Video dimensions still 0, trying to refresh stream');
-                  video.load();
-                }
-              }
-            }}
-            className="px-4 py-2 bg-orange-600 hover:bg-orange-700 rounded-lg transition-colors text-sm"
+            onClick={() => videoInputRef.current?.click()}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors text-sm"
           >
-            Force Activate Camera
+            Open Video
           </button>
         )}
         
+        {/* Debug buttons */}
         {isWebcamAvailable && !ascii && (
           <button
             onClick={() => {
               console.log('Force processing frame...');
-              if (videoRef.current && converterRef.current) {
-                try {
-                  const lut = createBrightnessLUT(CHARSETS[settings.charset], settings.invert);
-                  const result = converterRef.current.convertVideoFrame(
-                    videoRef.current,
-                    dimensions.cols,
-                    dimensions.rows,
-                    lut,
-                    settings.colorMode
-                  );
-                  console.log('Force result:', result);
-                  if (result.ascii) {
-                    setAscii(result.ascii);
-                  }
-                } catch (error) {
-                  console.error('Force processing error:', error);
+              try {
+                const result = convertSourceFrame();
+                console.log('Force result:', result);
+                if (result) {
+                  setFrame(result);
                 }
+              } catch (error) {
+                console.error('Force processing error:', error);
               }
             }}
             className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors text-sm"
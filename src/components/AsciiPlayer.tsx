@@ -0,0 +1,192 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { frameIndexAt } from '../lib/recording';
+import { AsciiDisplay } from './AsciiDisplay';
+import type { AsciiFrame, AsciiRecording, RendererKind } from '../types/ascii';
+
+interface AsciiPlayerProps {
+  recording: AsciiRecording;
+  /** Output renderer, the same one the live display uses */
+  renderer?: RendererKind;
+  onClose?: () => void;
+}
+
+const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 1.5, 2, 4];
+
+const buttonStyle: React.CSSProperties = {
+  background: '#333',
+  color: '#0f0',
+  border: '1px solid #555',
+  padding: '8px 16px',
+  cursor: 'pointer'
+};
+
+// Seconds as m:ss.s
+const formatTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, '0')}`;
+};
+
+export const AsciiPlayer: React.FC<AsciiPlayerProps> = ({ recording, renderer, onClose }) => {
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  const [position, setPosition] = useState<number>(0);
+  const [speed, setSpeed] = useState<number>(1);
+  const [loop, setLoop] = useState<boolean>(true);
+
+  // The loop reads these without being recreated on every tick
+  const positionRef = useRef<number>(0);
+  const speedRef = useRef<number>(speed);
+  const loopRef = useRef<boolean>(loop);
+
+  // Recorded change lists describe the live sequence, not playback order
+  const frames = useMemo<AsciiFrame[]>(
+    () => recording.frames.map(({ frame }) => ({ ...frame, changes: undefined })),
+    [recording]
+  );
+  const duration = recording.frames.length > 0 ? recording.frames[recording.frames.length - 1].time : 0;
+  const index = frameIndexAt(recording.frames, position);
+
+  const seek = useCallback((time: number) => {
+    const clamped = Math.min(Math.max(0, time), duration);
+    positionRef.current = clamped;
+    setPosition(clamped);
+  }, [duration]);
+
+  // A new recording starts from the beginning
+  useEffect(() => {
+    seek(0);
+    setIsPlaying(false);
+  }, [recording, seek]);
+
+  useEffect(() => {
+    speedRef.current = speed;
+  }, [speed]);
+
+  useEffect(() => {
+    loopRef.current = loop;
+  }, [loop]);
+
+  // Advance the position by wall-clock time while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let handle = 0;
+    let last = performance.now();
+
+    const tick = (now: number) => {
+      let next = positionRef.current + ((now - last) / 1000) * speedRef.current;
+      last = now;
+
+      if (next >= duration) {
+        if (loopRef.current && duration > 0) {
+          next %= duration;
+        } else {
+          seek(duration);
+          setIsPlaying(false);
+          return;
+        }
+      }
+
+      seek(next);
+      handle = requestAnimationFrame(tick);
+    };
+
+    handle = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(handle);
+  }, [isPlaying, duration, seek]);
+
+  const togglePlaying = useCallback(() => {
+    // Playing from the end starts over
+    if (!isPlaying && positionRef.current >= duration) {
+      seek(0);
+    }
+    setIsPlaying(!isPlaying);
+  }, [isPlaying, duration, seek]);
+
+  // Pause and move to a neighbouring frame
+  const step = useCallback((delta: number) => {
+    setIsPlaying(false);
+    const target = Math.min(Math.max(0, index + delta), recording.frames.length - 1);
+    if (target >= 0) {
+      seek(recording.frames[target].time);
+    }
+  }, [index, recording, seek]);
+
+  const hasFrames = frames.length > 0;
+
+  return (
+    <div>
+      <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap', alignItems: 'center', margin: '20px 0 10px' }}>
+        <button onClick={() => step(-1)} disabled={!hasFrames} style={buttonStyle} aria-label="Previous frame">
+          ⏮
+        </button>
+        <button onClick={togglePlaying} disabled={!hasFrames} style={buttonStyle}>
+          {isPlaying ? '❚❚ Pause' : '▶ Play'}
+        </button>
+        <button onClick={() => step(1)} disabled={!hasFrames} style={buttonStyle} aria-label="Next frame">
+          ⏭
+        </button>
+
+        <label>
+          Speed:
+          <select
+            value={speed}
+            onChange={(e) => setSpeed(parseFloat(e.target.value))}
+            style={{ marginLeft: '5px', padding: '5px' }}
+          >
+            {PLAYBACK_SPEEDS.map(value => (
+              <option key={value} value={value}>{value}×</option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          <input
+            type="checkbox"
+            checked={loop}
+            onChange={(e) => setLoop(e.target.checked)}
+            style={{ marginRight: '8px' }}
+          />
+          Loop
+        </label>
+
+        <span style={{ color: '#888' }}>
+          {formatTime(position)} / {formatTime(duration)} · frame {hasFrames ? index + 1 : 0}/{frames.length}
+        </span>
+
+        {onClose && (
+          <button onClick={onClose} style={buttonStyle}>
+            Close
+          </button>
+        )}
+      </div>
+
+      <input
+        type="range"
+        min="0"
+        max={duration}
+        step="0.01"
+        value={position}
+        onChange={(e) => seek(parseFloat(e.target.value))}
+        disabled={!hasFrames}
+        aria-label="Seek"
+        style={{ width: '100%', margin: '5px 0' }}
+      />
+
+      <AsciiDisplay
+        frame={frames[index] ?? null}
+        renderer={renderer}
+        placeholder="Recording has no frames"
+        style={{
+          background: '#111',
+          padding: '10px',
+          border: '1px solid #333',
+          whiteSpace: 'pre',
+          fontSize: '10px',
+          lineHeight: '1',
+          maxHeight: '500px',
+          overflowY: 'auto'
+        }}
+      />
+    </div>
+  );
+};
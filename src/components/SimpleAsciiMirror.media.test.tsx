@@ -0,0 +1,189 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import { SimpleAsciiMirror } from './SimpleAsciiMirror';
+
+// Camera stream whose tracks record being stopped
+const createStream = () => {
+  const stop = jest.fn();
+  const stream = {
+    getTracks: () => [{ stop }],
+    getVideoTracks: () => [{ stop, getSettings: () => ({}) }]
+  } as unknown as MediaStream;
+  return { stream, stop };
+};
+
+describe('SimpleAsciiMirror media sources', () => {
+  const getUserMedia = navigator.mediaDevices.getUserMedia as jest.Mock;
+
+  beforeEach(() => {
+    localStorage.clear();
+    getUserMedia.mockReset();
+    HTMLMediaElement.prototype.play = jest.fn().mockResolvedValue(undefined);
+    HTMLMediaElement.prototype.pause = jest.fn();
+    HTMLMediaElement.prototype.load = jest.fn();
+  });
+
+  it('should release the camera of the first StrictMode mount', async () => {
+    const pending: ((stream: MediaStream) => void)[] = [];
+    getUserMedia.mockImplementation(() => new Promise(resolve => pending.push(resolve)));
+    const streams = [createStream(), createStream()];
+
+    render(
+      <React.StrictMode>
+        <SimpleAsciiMirror />
+      </React.StrictMode>
+    );
+    await waitFor(() => expect(getUserMedia).toHaveBeenCalledTimes(1));
+
+    // The remount's start waits for the first one, which the unmount cancelled
+    await act(async () => {
+      pending[0](streams[0].stream);
+    });
+    await waitFor(() => expect(getUserMedia).toHaveBeenCalledTimes(2));
+    await act(async () => {
+      pending[1](streams[1].stream);
+    });
+
+    expect(streams[0].stop).toHaveBeenCalled();
+    expect(streams[1].stop).not.toHaveBeenCalled();
+  });
+
+  it('should apply only the latest camera format while a start is pending', async () => {
+    const pending: ((stream: MediaStream) => void)[] = [];
+    getUserMedia.mockImplementation(() => new Promise(resolve => pending.push(resolve)));
+    const streams = [createStream(), createStream()];
+
+    render(<SimpleAsciiMirror />);
+    await waitFor(() => expect(getUserMedia).toHaveBeenCalledTimes(1));
+
+    const resolution = screen.getByLabelText('Camera resolution');
+    fireEvent.change(resolution, { target: { value: '320x240' } });
+    fireEvent.change(resolution, { target: { value: '1280x720' } });
+    fireEvent.change(resolution, { target: { value: '1920x1080' } });
+
+    // The changes wait for the mount start and collapse into one restart
+    expect(getUserMedia).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      pending[0](streams[0].stream);
+    });
+    await waitFor(() => expect(getUserMedia).toHaveBeenCalledTimes(2));
+    expect(getUserMedia.mock.calls[1][0].video.width).toEqual({ ideal: 1920 });
+
+    await act(async () => {
+      pending[1](streams[1].stream);
+    });
+
+    // The replaced stream is released, the latest one keeps running
+    expect(streams[0].stop).toHaveBeenCalled();
+    expect(streams[1].stop).not.toHaveBeenCalled();
+    expect(getUserMedia).toHaveBeenCalledTimes(2);
+  });
+
+  it('should queue Start Camera behind a running restart', async () => {
+    const pending: ((stream: MediaStream) => void)[] = [];
+    getUserMedia.mockImplementation(() => new Promise(resolve => pending.push(resolve)));
+    const streams = [createStream(), createStream()];
+
+    render(<SimpleAsciiMirror />);
+    await waitFor(() => expect(getUserMedia).toHaveBeenCalledTimes(1));
+
+    fireEvent.change(screen.getByLabelText('Camera resolution'), { target: { value: '1280x720' } });
+    fireEvent.click(screen.getByText('Start Camera'));
+    expect(getUserMedia).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      pending[0](streams[0].stream);
+    });
+    await waitFor(() => expect(getUserMedia).toHaveBeenCalledTimes(2));
+    await act(async () => {
+      pending[1](streams[1].stream);
+    });
+
+    expect(getUserMedia.mock.calls[1][0].video.width).toEqual({ ideal: 1280 });
+    expect(streams[0].stop).toHaveBeenCalled();
+    expect(streams[1].stop).not.toHaveBeenCalled();
+    expect(getUserMedia).toHaveBeenCalledTimes(2);
+  });
+
+  it('should play, seek and loop an opened video file', async () => {
+    const camera = createStream();
+    getUserMedia.mockResolvedValue(camera.stream);
+    const { container } = render(<SimpleAsciiMirror />);
+    const video = container.querySelector('video')!;
+    await waitFor(() => expect(video.srcObject).toBe(camera.stream));
+
+    fireEvent.change(screen.getByLabelText('Open Image / Video'), {
+      target: { files: [new File(['data'], 'clip.webm', { type: 'video/webm' })] }
+    });
+    await screen.findByText(/clip\.webm ·/);
+    expect(camera.stop).toHaveBeenCalled();
+    expect(video.loop).toBe(true);
+
+    // Play and pause go through the element; its events drive the button label
+    fireEvent.click(screen.getByText('▶ Play'));
+    expect(video.play).toHaveBeenCalled();
+    fireEvent.play(video);
+    Object.defineProperty(video, 'paused', { value: false, configurable: true });
+    fireEvent.click(screen.getByText('❚❚ Pause'));
+    expect(video.pause).toHaveBeenCalled();
+
+    Object.defineProperty(video, 'duration', { value: 12, configurable: true });
+    fireEvent.durationChange(video);
+    fireEvent.change(screen.getByLabelText('Seek video'), { target: { value: '4.5' } });
+    expect(video.currentTime).toBe(4.5);
+    expect(screen.getByText(/4\.5s \/ 12\.0s/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Loop'));
+    expect(video.loop).toBe(false);
+
+    getUserMedia.mockClear();
+    fireEvent.click(screen.getByText('Back to Camera'));
+    await waitFor(() => expect(getUserMedia).toHaveBeenCalled());
+    expect(screen.queryByLabelText('Seek video')).not.toBeInTheDocument();
+  });
+});
+
+describe('SimpleAsciiMirror batch images', () => {
+  const OriginalImage = global.Image;
+
+  beforeEach(() => {
+    localStorage.clear();
+    (navigator.mediaDevices.getUserMedia as jest.Mock).mockResolvedValue(createStream().stream);
+    HTMLMediaElement.prototype.play = jest.fn().mockResolvedValue(undefined);
+    // jsdom does not decode images
+    global.Image = class {
+      onload: (() => void) | null = null;
+      onerror: (() => void) | null = null;
+      naturalWidth = 8;
+      naturalHeight = 6;
+      set src(_value: string) {
+        setTimeout(() => this.onload?.(), 0);
+      }
+    } as unknown as typeof Image;
+  });
+
+  afterEach(() => {
+    global.Image = OriginalImage;
+  });
+
+  it('should list dropped images and offer them as a ZIP', async () => {
+    const { container } = render(<SimpleAsciiMirror />);
+    const files = [
+      new File(['a'], 'first.png', { type: 'image/png' }),
+      new File(['b'], 'second.jpg', { type: 'image/jpeg' })
+    ];
+
+    fireEvent.drop(container.firstChild as Element, { dataTransfer: { files, types: ['Files'] } });
+
+    const list = await screen.findByLabelText('Batch images');
+    await waitFor(() => expect(list.querySelectorAll('li')).toHaveLength(2));
+    expect(screen.getByText('first.png')).toBeInTheDocument();
+    expect(screen.getByText('second.jpg')).toBeInTheDocument();
+    expect(screen.getByText(/Download ZIP \(2 × \.txt\)/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Remove first.png'));
+    expect(list.querySelectorAll('li')).toHaveLength(1);
+    expect(screen.getByText(/Download ZIP \(1 × \.txt\)/)).toBeInTheDocument();
+  });
+});
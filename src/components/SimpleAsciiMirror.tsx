@@ -1,26 +1,145 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { AsciiConverter, CHARSETS, createBrightnessLUT, calculateGridDimensions } from '../lib/ascii';
-import type { CharsetName } from '../types/ascii';
-
-// Settings interface
-interface AsciiMirrorSettings {
-  cols: number;
-  invert: boolean;
-  colorMode: boolean;
-  charset: CharsetName;
-  fpsLimit: number;
-  isPaused: boolean;
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import {
+  AsciiConverter,
+  DEFAULT_ADJUSTMENTS,
+  DEFAULT_STABILIZATION,
+  createBrightnessLUT,
+  calculateGridDimensions
+} from '../lib/ascii';
+import { batchFileName, batchToZip, convertImageFile, imageFiles } from '../lib/batch';
+import {
+  createCustomCharset,
+  isCustomCharset,
+  loadCustomCharsets,
+  resolveCharset,
+  saveCustomCharsets
+} from '../lib/charsets';
+import {
+  DEFAULT_SNAPSHOT_STYLE,
+  EXPORT_EXTENSIONS,
+  SNAPSHOT_FONTS,
+  SNAPSHOT_THEMES,
+  downloadBlob,
+  exportFrame
+} from '../lib/export';
+import {
+  CAMERA_FRAME_RATES,
+  CAMERA_RESOLUTIONS,
+  buildCameraConstraints,
+  listCameras,
+  loadCameraPreferences,
+  saveCameraPreferences,
+  watchCameras
+} from '../lib/cameras';
+import {
+  FULL_REGION,
+  ImageSource,
+  normalizeRegion,
+  ScreenCaptureSource,
+  TestPatternSource,
+  VideoFileSource,
+  WebcamSource
+} from '../lib/frameSources';
+import type { FrameSource } from '../lib/frameSources';
+import { DEFAULT_GIF_OPTIONS, GIF_MAX_FRAMES, recordingToGif } from '../lib/gif';
+import { frameToPng } from '../lib/rasterize';
+import { TEST_PATTERNS } from '../lib/testPatterns';
+import {
+  AsciiRecorder,
+  MAX_RECORDING_FRAMES,
+  parseRecording,
+  recordingToAsciicast,
+  serializeRecording
+} from '../lib/recording';
+import { WorkerAsciiConverter } from '../lib/workerConverter';
+import { AsciiDisplay } from './AsciiDisplay';
+import { AsciiPlayer } from './AsciiPlayer';
+import type {
+  AsciiFrame,
+  AsciiMirrorSettings,
+  AsciiRecording,
+  AutoLevelsMode,
+  BatchImage,
+  CameraDevice,
+  CameraFacingMode,
+  CameraPreferences,
+  CharsetName,
+  ConversionMode,
+  CropRegion,
+  CustomCharset,
+  DitherAlgorithm,
+  ExportFormat,
+  FrameSourceKind,
+  ImageAdjustments,
+  RendererKind,
+  SnapshotStyle,
+  SnapshotTheme,
+  TemporalStabilization,
+  TestPatternName
+} from '../types/ascii';
+
+interface SimpleAsciiMirrorProps {
+  /** Source started on mount instead of the webcam, e.g. a synthetic one in tests */
+  createSource?: (video: HTMLVideoElement) => FrameSource;
 }
 
-export const SimpleAsciiMirror: React.FC = () => {
+export const SimpleAsciiMirror: React.FC<SimpleAsciiMirrorProps> = ({ createSource }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const converterRef = useRef<AsciiConverter | null>(null);
+  const converterRef = useRef<WorkerAsciiConverter | null>(null);
+  // Active input; the animation loop converts whatever it provides
+  const sourceRef = useRef<FrameSource | null>(null);
+  const unsubscribeSourceRef = useRef<(() => void) | null>(null);
+  // Pushing sources are converted only after a new frame or a settings change
+  const pendingFrameRef = useRef<boolean>(true);
+  // Read on mount only, so a new function on every render does not restart the source
+  const initialCreateSourceRef = useRef(createSource);
+  const [sourceKind, setSourceKind] = useState<FrameSourceKind | null>(null);
+
+  // Camera picker; the choice is saved in localStorage
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
+  const [cameraPreferences, setCameraPreferences] = useState<CameraPreferences>(() => loadCameraPreferences());
+  const cameraPreferencesRef = useRef<CameraPreferences>(cameraPreferences);
+  // One camera start at a time; requests made meanwhile collapse into a single follow-up
+  const cameraRestartRef = useRef<{ running: boolean; queued: boolean }>({ running: false, queued: false });
+  // Part of a shared screen to convert, kept across shares
+  const [screenRegion, setScreenRegion] = useState<CropRegion>(FULL_REGION);
+  const screenRegionRef = useRef<CropRegion>(screenRegion);
+  // Generated input for machines without a camera
+  const [testPattern, setTestPattern] = useState<TestPatternName>('bars');
   const animationFrameRef = useRef<number | null>(null);
   const lastFrameTimeRef = useRef<number>(0);
-  const [ascii, setAscii] = useState<string>('');
-  const [colors, setColors] = useState<string[]>([]);
+  const [frame, setFrame] = useState<AsciiFrame | null>(null);
   const [status, setStatus] = useState<string>('Initializing...');
   const [lastSnapshot, setLastSnapshot] = useState<string>('');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('text');
+  const [snapshotTheme, setSnapshotTheme] = useState<SnapshotTheme>('terminal');
+  const [snapshotFont, setSnapshotFont] = useState<string>(DEFAULT_SNAPSHOT_STYLE.fontFamily);
+  const [pngScale, setPngScale] = useState<number>(2);
+
+  // Session recording, fed from the frame callback
+  const recorderRef = useRef<AsciiRecorder>(new AsciiRecorder());
+  const [isRecording, setIsRecording] = useState<boolean>(false);
+  const [recordedFrames, setRecordedFrames] = useState<number>(0);
+  const [recording, setRecording] = useState<AsciiRecording | null>(null);
+  // Animated GIF export of the last recording
+  const [gifFps, setGifFps] = useState<number>(DEFAULT_GIF_OPTIONS.fps);
+  const [gifMaxWidth, setGifMaxWidth] = useState<number>(DEFAULT_GIF_OPTIONS.maxWidth);
+  const [gifProgress, setGifProgress] = useState<number | null>(null);
+  // Recording open in the player, replacing the live display
+  const [playback, setPlayback] = useState<AsciiRecording | null>(null);
+  // Transport of an opened video file, mirrored from the video element's events
+  const [videoName, setVideoName] = useState<string>('');
+  const [isVideoPlaying, setIsVideoPlaying] = useState<boolean>(false);
+  const [videoTime, setVideoTime] = useState<number>(0);
+  const [videoDuration, setVideoDuration] = useState<number>(0);
+  const [isVideoLooping, setIsVideoLooping] = useState<boolean>(true);
+
+  // Images converted in a batch, from drops, pastes or multi-select
+  const batchConverterRef = useRef<AsciiConverter | null>(null);
+  const batchIdRef = useRef<number>(0);
+  const [batchImages, setBatchImages] = useState<BatchImage[]>([]);
+  const [selectedBatchId, setSelectedBatchId] = useState<number | null>(null);
+  const [isConvertingBatch, setIsConvertingBatch] = useState<boolean>(false);
 
   // Settings state
   const [settings, setSettings] = useState<AsciiMirrorSettings>({
@@ -28,25 +147,30 @@ export const SimpleAsciiMirror: React.FC = () => {
     invert: false,
     colorMode: false,
     charset: 'simple',
+    mode: 'brightness',
+    dither: 'none',
+    adjustments: DEFAULT_ADJUSTMENTS,
+    stabilization: DEFAULT_STABILIZATION,
     fpsLimit: 24,
-    isPaused: false
+    isPaused: false,
+    renderer: 'dom'
   });
 
   // Use ref for settings to avoid interrupting animation
   const settingsRef = useRef<AsciiMirrorSettings>(settings);
 
+  // User-defined charsets, saved in localStorage
+  const [customCharsets, setCustomCharsets] = useState<CustomCharset[]>(() => loadCustomCharsets());
+  const customCharsetsRef = useRef<CustomCharset[]>(customCharsets);
+  const [charsetDraft, setCharsetDraft] = useState<string>('');
+
   // Animation loop - moved above useEffect that uses it
   const animate = useCallback(() => {
-    if (!videoRef.current || !converterRef.current) {
-      animationFrameRef.current = requestAnimationFrame(animate);
-      return;
-    }
-
-    const video = videoRef.current;
+    const source = sourceRef.current;
     const converter = converterRef.current;
     const currentSettings = settingsRef.current;
 
-    if (currentSettings.isPaused) {
+    if (!source || !converter || currentSettings.isPaused) {
       animationFrameRef.current = requestAnimationFrame(animate);
       return;
     }
@@ -54,20 +178,26 @@ export const SimpleAsciiMirror: React.FC = () => {
     const currentTime = performance.now();
     const deltaTime = currentTime - lastFrameTimeRef.current;
     const targetFrameTime = 1000 / currentSettings.fpsLimit;
+    const isDue = source.pushesFrames ? pendingFrameRef.current : deltaTime >= targetFrameTime;
+    const input = isDue ? source.getFrame() : null;
 
-    if (deltaTime >= targetFrameTime && video.readyState >= 2 && video.videoWidth > 0) {
+    if (input) {
       try {
-        const lut = createBrightnessLUT(CHARSETS[currentSettings.charset], currentSettings.invert);
-        const rows = Math.floor(video.videoHeight / (video.videoWidth / currentSettings.cols) * 0.5);
-        const result = converter.convertVideoFrame(video, currentSettings.cols, rows, lut, currentSettings.colorMode);
-        setAscii(result.ascii);
-
-        if (result.colors) {
-          setColors(result.colors);
-        } else {
-          setColors([]);
+        const lut = createBrightnessLUT(
+          resolveCharset(currentSettings.charset, customCharsetsRef.current),
+          currentSettings.invert
+        );
+        const { cols, rows } = calculateGridDimensions(
+          input.width,
+          input.height,
+          currentSettings.cols,
+          currentSettings.charset
+        );
+        // Dropped while the previous frame is still converting; retry next tick
+        if (converter.submit(input, cols, rows, lut, currentSettings)) {
+          lastFrameTimeRef.current = currentTime;
+          pendingFrameRef.current = false;
         }
-        lastFrameTimeRef.current = currentTime;
       } catch (error) {
         console.error('Animation error:', error);
       }
@@ -77,11 +207,26 @@ export const SimpleAsciiMirror: React.FC = () => {
   }, []); // Remove settings dependency to avoid recreating function
 
   useEffect(() => {
-    // Initialize converter
-    converterRef.current = new AsciiConverter();
+    // Initialize converter; frames arrive asynchronously from the worker
+    converterRef.current = new WorkerAsciiConverter(
+      frame => {
+        const recorder = recorderRef.current;
+        if (recorder.capture(frame)) {
+          setRecordedFrames(recorder.frameCount);
+          if (recorder.isFull) {
+            setRecording(recorder.stop());
+            setIsRecording(false);
+          }
+        }
+        setFrame(frame);
+      },
+      error => console.error('Animation error:', error)
+    );
 
-    // Start camera immediately
-    startCamera();
+    return () => {
+      converterRef.current?.dispose();
+      converterRef.current = null;
+    };
   }, []);
 
   // Start/stop animation
@@ -106,76 +251,452 @@ export const SimpleAsciiMirror: React.FC = () => {
     }
   }, [settings.isPaused]);
 
-  const startCamera = async () => {
+  // Make a source the input of the animation loop, stopping the previous one.
+  // Resolves true only if it started and was not replaced in the meantime.
+  const switchSource = useCallback(async (source: FrameSource): Promise<boolean> => {
+    unsubscribeSourceRef.current?.();
+    if (sourceRef.current !== source) {
+      sourceRef.current?.stop();
+    }
+    sourceRef.current = source;
+    pendingFrameRef.current = true;
+    // A camera restart still waiting to run would replace the new input
+    if (source.kind !== 'webcam') cameraRestartRef.current.queued = false;
+    // Smoothing and the changed-cell diff must not carry over from the old source
+    converterRef.current?.resetTemporal();
+    setSourceKind(source.kind);
+
+    const unsubscribers = [
+      source.on('ready', () => setStatus(`Video ready: ${source.width}x${source.height}`)),
+      source.on('frame', () => {
+        pendingFrameRef.current = true;
+      }),
+      source.on('error', error => setStatus(`Error: ${error.message}`))
+    ];
+    unsubscribeSourceRef.current = () => unsubscribers.forEach(unsubscribe => unsubscribe());
+
     try {
-      setStatus('Requesting camera...');
+      await source.start();
+    } catch (error) {
+      if (sourceRef.current === source) console.error(error);
+      return false;
+    }
+    return sourceRef.current === source;
+  }, []);
 
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { width: 640, height: 480 }
-      });
+  // Start the chosen camera, or the default one if it is gone
+  const startCamera = useCallback(async (preferences: CameraPreferences = cameraPreferencesRef.current) => {
+    const video = videoRef.current;
+    if (!video) return;
 
-      setStatus('Camera access granted');
+    setStatus('Requesting camera...');
+    const chosen = new WebcamSource(video, buildCameraConstraints(preferences));
+    let started = await switchSource(chosen);
+    // Another source was picked while the camera was starting
+    if (sourceRef.current !== chosen) return;
 
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        videoRef.current.muted = true;
+    if (!started && preferences.deviceId) {
+      const fallback = new WebcamSource(video, buildCameraConstraints({ ...preferences, deviceId: null }));
+      started = await switchSource(fallback);
+      if (sourceRef.current !== fallback) return;
+    }
+    if (!started) {
+      setStatus('No camera available: choose a test pattern or open a file');
+    }
 
-        videoRef.current.onloadedmetadata = () => {
-          setStatus(`Video ready: ${videoRef.current?.videoWidth}x${videoRef.current?.videoHeight}`);
+    // Camera names are only listed once access has been granted
+    listCameras()
+      .then(setCameras)
+      .catch(error => console.warn('Could not list cameras:', error));
+  }, [switchSource]);
 
-          // Start animation loop
-          animate();
-        };
+  // Start the camera with the latest preferences once any pending start has
+  // settled. Every camera start goes through here, so two never race.
+  const restartCamera = useCallback(async () => {
+    const restart = cameraRestartRef.current;
+    if (restart.running) {
+      restart.queued = true;
+      return;
+    }
 
-        await videoRef.current.play();
-        setStatus('Video playing');
-      }
-    } catch (error) {
-      setStatus(`Error: ${error.message}`);
-      console.error(error);
+    restart.running = true;
+    try {
+      do {
+        restart.queued = false;
+        await startCamera();
+      } while (restart.queued);
+    } finally {
+      restart.running = false;
+      restart.queued = false;
+    }
+  }, [startCamera]);
+
+  // Save a camera choice and switch the running camera to it
+  const updateCameraPreferences = useCallback((updates: Partial<CameraPreferences>) => {
+    const next = { ...cameraPreferencesRef.current, ...updates };
+    cameraPreferencesRef.current = next;
+    setCameraPreferences(next);
+    saveCameraPreferences(next);
+
+    if (!sourceRef.current || sourceRef.current.kind === 'webcam') {
+      restartCamera();
+    }
+  }, [restartCamera]);
+
+  // Follow cameras being plugged in or removed
+  useEffect(() => watchCameras(list => {
+    setCameras(list);
+
+    const source = sourceRef.current;
+    if (!(source instanceof WebcamSource)) return;
+
+    const wanted = cameraPreferencesRef.current.deviceId;
+    const active = source.deviceId;
+    const isActiveGone = active !== null && !list.some(camera => camera.deviceId === active);
+    const isWantedBack = wanted !== null && wanted !== active && list.some(camera => camera.deviceId === wanted);
+    if (isActiveGone || isWantedBack) {
+      restartCamera();
+    }
+  }), [restartCamera]);
+
+  // Start the initial source once: the one from createSource, else the camera
+  useEffect(() => {
+    const create = initialCreateSourceRef.current;
+    if (create && videoRef.current) {
+      switchSource(create(videoRef.current));
+    } else {
+      restartCamera();
+    }
+
+    return () => {
+      unsubscribeSourceRef.current?.();
+      sourceRef.current?.stop();
+      sourceRef.current = null;
+    };
+  }, [switchSource, restartCamera]);
+
+  // Ask the browser for a screen, window or tab to convert; back to the camera when sharing ends
+  const shareScreen = useCallback(async () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const source = new ScreenCaptureSource(video, screenRegionRef.current);
+    source.on('ended', () => {
+      if (sourceRef.current !== source) return;
+      setStatus('Screen sharing ended');
+      restartCamera();
+    });
+
+    setStatus('Choose a screen, window or tab to share...');
+    // Cancelling the browser picker also lands here
+    if (!(await switchSource(source)) && sourceRef.current === source) {
+      restartCamera();
+    }
+  }, [switchSource, restartCamera]);
+
+  // Switch the input to a generated pattern
+  const showTestPattern = useCallback((pattern: TestPatternName) => {
+    setTestPattern(pattern);
+    setStatus(`Test pattern: ${pattern}`);
+    switchSource(new TestPatternSource(pattern));
+  }, [switchSource]);
+
+  // Narrow the converted part of the shared screen
+  const updateScreenRegion = useCallback((updates: Partial<CropRegion>) => {
+    const next = normalizeRegion({ ...screenRegionRef.current, ...updates });
+    screenRegionRef.current = next;
+    setScreenRegion(next);
+
+    if (sourceRef.current instanceof ScreenCaptureSource) {
+      sourceRef.current.setRegion(next);
     }
-  };
+  }, []);
+
+  // Open an image or video file as the input
+  const openMediaFile = useCallback((file: File) => {
+    if (file.type.startsWith('image/')) {
+      setStatus(`Loading ${file.name}...`);
+      switchSource(new ImageSource(file));
+    } else if (file.type.startsWith('video/') && videoRef.current) {
+      setStatus(`Loading ${file.name}...`);
+      setVideoName(file.name);
+      setVideoTime(0);
+      switchSource(new VideoFileSource(videoRef.current, file));
+    }
+  }, [switchSource]);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.loop = isVideoLooping;
+    }
+  }, [isVideoLooping, sourceKind]);
+
+  const toggleVideoPlaying = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (video.paused) {
+      video.play().catch(error => console.error('Play failed:', error));
+    } else {
+      video.pause();
+    }
+  }, []);
+
+  const seekVideo = useCallback((time: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = time;
+      setVideoTime(time);
+    }
+  }, []);
 
   // Update settings
   const updateSettings = useCallback((updates: Partial<AsciiMirrorSettings>) => {
     setSettings(prev => ({ ...prev, ...updates }));
   }, []);
 
-  // Sync settings ref with state
+  // Update a single tone adjustment
+  const updateAdjustments = useCallback((updates: Partial<ImageAdjustments>) => {
+    setSettings(prev => ({
+      ...prev,
+      adjustments: { ...DEFAULT_ADJUSTMENTS, ...prev.adjustments, ...updates }
+    }));
+  }, []);
+
+  // Update a single stabilization option
+  const updateStabilization = useCallback((updates: Partial<TemporalStabilization>) => {
+    setSettings(prev => ({
+      ...prev,
+      stabilization: { ...DEFAULT_STABILIZATION, ...prev.stabilization, ...updates }
+    }));
+  }, []);
+
+  const adjustments = settings.adjustments ?? DEFAULT_ADJUSTMENTS;
+  const stabilization = settings.stabilization ?? DEFAULT_STABILIZATION;
+
+  // Sync settings ref with state; still images are converted again with the new settings
   useEffect(() => {
     settingsRef.current = settings;
+    pendingFrameRef.current = true;
   }, [settings]);
 
+  useEffect(() => {
+    customCharsetsRef.current = customCharsets;
+    pendingFrameRef.current = true;
+  }, [customCharsets]);
+
+  // Measure, order and save a user-defined ramp, then switch to it
+  const addCustomCharset = useCallback((name: string, text: string) => {
+    try {
+      const charset = createCustomCharset(name, text);
+      const next = [...customCharsetsRef.current, charset];
+      customCharsetsRef.current = next;
+      setCustomCharsets(next);
+      saveCustomCharsets(next);
+      updateSettings({ charset: charset.id });
+      setCharsetDraft('');
+      setStatus(`Charset saved: ${charset.chars}`);
+    } catch (error) {
+      setStatus(`Error: ${(error as Error).message}`);
+    }
+  }, [updateSettings]);
+
+  const removeCustomCharset = useCallback((id: CharsetName) => {
+    const next = customCharsetsRef.current.filter(charset => charset.id !== id);
+    customCharsetsRef.current = next;
+    setCustomCharsets(next);
+    saveCustomCharsets(next);
+    updateSettings({ charset: 'simple' });
+  }, [updateSettings]);
+
+  const importCharsetFile = useCallback(async (file: File) => {
+    const text = await file.text();
+    addCustomCharset(file.name.replace(/\.[^.]+$/, ''), text);
+  }, [addCustomCharset]);
+
+  const hasFrame = frame !== null;
+  const extension = EXPORT_EXTENSIONS[exportFormat];
+  const selectedBatchFrame = batchImages.find(image => image.id === selectedBatchId)?.frame ?? null;
+
+  const snapshotStyle = useMemo<SnapshotStyle>(() => ({
+    ...DEFAULT_SNAPSHOT_STYLE,
+    ...SNAPSHOT_THEMES[snapshotTheme],
+    fontFamily: snapshotFont
+  }), [snapshotTheme, snapshotFont]);
+
   // Handle snapshot
   const handleSnapshot = useCallback(() => {
-    if (!ascii) return;
-
-    setLastSnapshot(ascii);
-
-    // Download as .txt file
-    const blob = new Blob([ascii], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `ascii-snapshot-${Date.now()}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  }, [ascii]);
+    if (!frame) return;
+
+    const snapshot = exportFrame(frame, exportFormat, snapshotStyle);
+    setLastSnapshot(snapshot.content);
+
+    // Download as a file of the chosen format
+    const blob = new Blob([snapshot.content], { type: snapshot.mimeType });
+    downloadBlob(blob, `ascii-snapshot-${Date.now()}.${snapshot.extension}`);
+  }, [frame, exportFormat, snapshotStyle]);
+
+  // Convert images with the current settings and add them to the batch list
+  const addBatchImages = useCallback(async (files: File[]) => {
+    if (files.length === 0) return;
+
+    try {
+      // Own main-thread converter, so batch images do not disturb the live temporal history
+      batchConverterRef.current ??= new AsciiConverter();
+    } catch (error) {
+      setStatus(`Error: ${(error as Error).message}`);
+      return;
+    }
+    const converter = batchConverterRef.current;
+    const currentSettings = settingsRef.current;
+    const lut = createBrightnessLUT(
+      resolveCharset(currentSettings.charset, customCharsetsRef.current),
+      currentSettings.invert
+    );
+
+    setIsConvertingBatch(true);
+    for (const file of files) {
+      const id = ++batchIdRef.current;
+      const name = file.name || `pasted-${id}.png`;
+      let image: BatchImage;
+      try {
+        const converted = await convertImageFile(file, converter, currentSettings.cols, lut, currentSettings);
+        image = { id, name, frame: converted, error: null };
+      } catch (error) {
+        image = { id, name, frame: null, error: error instanceof Error ? error.message : 'Could not load image' };
+      }
+      setBatchImages(prev => [...prev, image]);
+      setSelectedBatchId(id);
+    }
+    setIsConvertingBatch(false);
+    setStatus(`Converted ${files.length} image${files.length === 1 ? '' : 's'}`);
+  }, []);
+
+  // Images pasted anywhere on the page join the batch
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const files = imageFiles(event.clipboardData?.files);
+      if (files.length === 0) return;
+      event.preventDefault();
+      addBatchImages(files);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [addBatchImages]);
+
+  const removeBatchImage = useCallback((id: number) => {
+    setBatchImages(prev => prev.filter(image => image.id !== id));
+    setSelectedBatchId(selected => (selected === id ? null : selected));
+  }, []);
+
+  const clearBatch = useCallback(() => {
+    setBatchImages([]);
+    setSelectedBatchId(null);
+  }, []);
+
+  // Download one converted image in the chosen export format
+  const downloadBatchImage = useCallback((image: BatchImage) => {
+    if (!image.frame) return;
+    const snapshot = exportFrame(image.frame, exportFormat, snapshotStyle);
+    const blob = new Blob([snapshot.content], { type: snapshot.mimeType });
+    downloadBlob(blob, batchFileName(image.name, snapshot.extension, new Set()));
+  }, [exportFormat, snapshotStyle]);
+
+  // Download every converted image as one ZIP in the chosen export format
+  const downloadBatchZip = useCallback(() => {
+    const zip = batchToZip(batchImages, exportFormat, snapshotStyle);
+    downloadBlob(new Blob([zip], { type: 'application/zip' }), `ascii-images-${Date.now()}.zip`);
+  }, [batchImages, exportFormat, snapshotStyle]);
+
+  // Download the frame as an image
+  const handlePngSnapshot = useCallback(async () => {
+    if (!frame) return;
+
+    try {
+      const blob = await frameToPng(frame, snapshotStyle, pngScale);
+      downloadBlob(blob, `ascii-snapshot-${Date.now()}.png`);
+    } catch (error) {
+      setStatus(`Error: ${(error as Error).message}`);
+    }
+  }, [frame, snapshotStyle, pngScale]);
+
+  // Start or stop recording
+  const toggleRecording = useCallback(() => {
+    const recorder = recorderRef.current;
+
+    if (recorder.isRecording) {
+      const result = recorder.stop();
+      setRecording(result);
+      setIsRecording(false);
+      setStatus(`Recorded ${result.frames.length} frames`);
+    } else {
+      recorder.start();
+      setRecordedFrames(0);
+      setIsRecording(true);
+      setStatus('Recording...');
+    }
+  }, []);
+
+  // Download the last recording as an asciicast v2 file
+  const downloadCast = useCallback(() => {
+    if (!recording) return;
+
+    // Color depth follows the chosen ANSI export format, truecolor otherwise
+    const depth = exportFormat === 'ansi-256' ? '256' : exportFormat === 'ansi-16' ? '16' : 'truecolor';
+    const blob = new Blob([recordingToAsciicast(recording, depth)], { type: 'application/x-asciicast' });
+    downloadBlob(blob, `ascii-recording-${Date.now()}.cast`);
+  }, [recording, exportFormat]);
+
+  // Encode the last recording as an animated GIF in the snapshot style
+  const downloadGif = useCallback(async () => {
+    if (!recording) return;
+
+    setGifProgress(0);
+    try {
+      const blob = await recordingToGif(
+        recording,
+        { style: snapshotStyle, scale: pngScale, fps: gifFps, maxWidth: gifMaxWidth },
+        setGifProgress
+      );
+      downloadBlob(blob, `ascii-recording-${Date.now()}.gif`);
+      setStatus(`GIF ready: ${Math.round(blob.size / 1024)} KB`);
+    } catch (error) {
+      setStatus(`Error: ${(error as Error).message}`);
+    } finally {
+      setGifProgress(null);
+    }
+  }, [recording, snapshotStyle, pngScale, gifFps, gifMaxWidth]);
+
+  // Download the last recording in the native format, which the player reads back exactly
+  const downloadRecording = useCallback(() => {
+    if (!recording) return;
+
+    const blob = new Blob([serializeRecording(recording)], { type: 'application/json' });
+    downloadBlob(blob, `ascii-recording-${Date.now()}.json`);
+  }, [recording]);
+
+  // Open a native recording or asciicast file in the player
+  const openRecordingFile = useCallback(async (file: File) => {
+    try {
+      const opened = parseRecording(await file.text());
+      setPlayback(opened);
+      setStatus(`Opened ${file.name}: ${opened.frames.length} frames`);
+    } catch (error) {
+      setStatus(`Error: ${(error as Error).message}`);
+    }
+  }, []);
 
   // Copy to clipboard
   const copyToClipboard = useCallback(async () => {
-    if (!ascii) return;
+    if (!frame) return;
 
     try {
-      await navigator.clipboard.writeText(ascii);
+      await navigator.clipboard.writeText(exportFrame(frame, exportFormat, snapshotStyle).content);
       setStatus('Copied to clipboard!');
       setTimeout(() => setStatus('Camera ready'), 2000);
     } catch (error) {
       console.error('Failed to copy:', error);
     }
-  }, [ascii]);
+  }, [frame, exportFormat, snapshotStyle]);
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -218,11 +739,30 @@ export const SimpleAsciiMirror: React.FC = () => {
   }, [settings, updateSettings, handleSnapshot]);
 
   return (
-    <div style={{ padding: '20px', fontFamily: 'monospace', background: '#000', color: '#0f0' }}>
+    <div
+      style={{ padding: '20px', fontFamily: 'monospace', background: '#000', color: '#0f0' }}
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => {
+        e.preventDefault();
+        // Dropped images are converted as a batch; anything else opens as a video or recording
+        const images = imageFiles(e.dataTransfer.files);
+        if (images.length > 0) {
+          addBatchImages(images);
+          return;
+        }
+        const file = e.dataTransfer.files[0];
+        if (!file) return;
+        if (file.type.startsWith('video/')) {
+          openMediaFile(file);
+        } else {
+          openRecordingFile(file);
+        }
+      }}
+    >
       <h1 style={{ color: '#64ff64', marginBottom: '20px' }}>ASCII Webcam Mirror</h1>
 
       <div style={{ margin: '10px 0', padding: '10px', background: '#111', border: '1px solid #333' }}>
-        Status: {status}
+        Status: {status}{sourceKind && ` (source: ${sourceKind})`}
       </div>
 
       {/* Controls */}
@@ -232,6 +772,107 @@ export const SimpleAsciiMirror: React.FC = () => {
           <strong>Hotkeys:</strong> Space (pause), [/] (columns), I (invert), C (color), S (snapshot)
         </div>
 
+        <div style={{ marginBottom: '15px' }}>
+          <label>Camera:</label>
+          <select
+            value={cameraPreferences.deviceId ?? ''}
+            onChange={(e) => updateCameraPreferences({ deviceId: e.target.value || null })}
+            style={{ width: '100%', margin: '5px 0', padding: '5px' }}
+          >
+            <option value="">Default</option>
+            {cameraPreferences.deviceId && !cameras.some(camera => camera.deviceId === cameraPreferences.deviceId) && (
+              <option value={cameraPreferences.deviceId}>Last used camera (not connected)</option>
+            )}
+            {cameras.map(camera => (
+              <option key={camera.deviceId} value={camera.deviceId}>{camera.label}</option>
+            ))}
+          </select>
+          <div style={{ display: 'flex', gap: '5px' }}>
+            <select
+              value={`${cameraPreferences.width}x${cameraPreferences.height}`}
+              onChange={(e) => {
+                const [width, height] = e.target.value.split('x').map(Number);
+                updateCameraPreferences({ width, height });
+              }}
+              aria-label="Camera resolution"
+              style={{ flex: 1, padding: '5px' }}
+            >
+              {CAMERA_RESOLUTIONS.map(({ width, height }) => (
+                <option key={width} value={`${width}x${height}`}>{width}×{height}</option>
+              ))}
+            </select>
+            <select
+              value={cameraPreferences.frameRate}
+              onChange={(e) => updateCameraPreferences({ frameRate: parseInt(e.target.value) })}
+              aria-label="Camera frame rate"
+              style={{ flex: 1, padding: '5px' }}
+            >
+              {CAMERA_FRAME_RATES.map(rate => (
+                <option key={rate} value={rate}>{rate} fps</option>
+              ))}
+            </select>
+            <select
+              value={cameraPreferences.facingMode}
+              onChange={(e) => updateCameraPreferences({ facingMode: e.target.value as CameraFacingMode })}
+              disabled={cameraPreferences.deviceId !== null}
+              aria-label="Camera facing mode"
+              style={{ flex: 1, padding: '5px' }}
+            >
+              <option value="user">Front</option>
+              <option value="environment">Back</option>
+            </select>
+          </div>
+        </div>
+
+        <div style={{ marginBottom: '15px' }}>
+          <label>Test Pattern:</label>
+          <select
+            value={sourceKind === 'pattern' ? testPattern : ''}
+            onChange={(e) => {
+              if (e.target.value) showTestPattern(e.target.value as TestPatternName);
+            }}
+            style={{ width: '100%', margin: '5px 0', padding: '5px' }}
+          >
+            <option value="" disabled>Choose a pattern...</option>
+            {TEST_PATTERNS.map(({ name, label }) => (
+              <option key={name} value={name}>{label}</option>
+            ))}
+          </select>
+        </div>
+
+        {sourceKind === 'screen' && (
+          <div style={{ marginBottom: '15px' }}>
+            <label>Screen Region:</label>
+            {([
+              ['x', 'Left'],
+              ['y', 'Top'],
+              ['width', 'Width'],
+              ['height', 'Height']
+            ] as const).map(([key, label]) => (
+              <div key={key} style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                <span style={{ width: '90px', fontSize: '12px' }}>
+                  {label}: {Math.round(screenRegion[key] * 100)}%
+                </span>
+                <input
+                  type="range"
+                  min={key === 'x' || key === 'y' ? 0 : 5}
+                  max={key === 'x' || key === 'y' ? 95 : 100}
+                  value={Math.round(screenRegion[key] * 100)}
+                  onChange={(e) => updateScreenRegion({ [key]: parseInt(e.target.value) / 100 })}
+                  aria-label={`Screen region ${label.toLowerCase()}`}
+                  style={{ flex: 1, margin: '5px 0' }}
+                />
+              </div>
+            ))}
+            <button
+              onClick={() => updateScreenRegion(FULL_REGION)}
+              style={{ background: '#333', color: '#0f0', border: '1px solid #555', padding: '5px 10px', cursor: 'pointer' }}
+            >
+              Whole Screen
+            </button>
+          </div>
+        )}
+
         <div style={{ marginBottom: '15px' }}>
           <label>Columns: {settings.cols}</label>
           <input
@@ -266,6 +907,184 @@ export const SimpleAsciiMirror: React.FC = () => {
             <option value="simple">Simple ( .:-=+*#%@)</option>
             <option value="detailed">Detailed</option>
             <option value="blocks">Blocks ( ░▒▓█)</option>
+            <option value="braille">Braille (2×4 dots ⣿)</option>
+            <option value="halfblock">Half blocks (▀▄)</option>
+            {customCharsets.length > 0 && (
+              <optgroup label="Custom">
+                {customCharsets.map(charset => (
+                  <option key={charset.id} value={charset.id}>
+                    {charset.name} ({charset.chars})
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+          <div style={{ display: 'flex', gap: '5px', alignItems: 'center' }}>
+            <input
+              type="text"
+              value={charsetDraft}
+              onChange={(e) => setCharsetDraft(e.target.value)}
+              placeholder="Custom characters, any order"
+              aria-label="Custom characters"
+              style={{ flex: 1, padding: '5px' }}
+            />
+            <button
+              onClick={() => addCustomCharset(`Custom ${customCharsets.length + 1}`, charsetDraft)}
+              disabled={!charsetDraft}
+              style={{ padding: '5px 10px' }}
+            >
+              Add
+            </button>
+            <label style={{ padding: '5px 10px', border: '1px solid #333', cursor: 'pointer' }}>
+              Import
+              <input
+                type="file"
+                accept=".txt,text/plain"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importCharsetFile(file);
+                  e.target.value = '';
+                }}
+                style={{ display: 'none' }}
+              />
+            </label>
+            {isCustomCharset(settings.charset) && (
+              <button
+                onClick={() => removeCustomCharset(settings.charset)}
+                style={{ padding: '5px 10px' }}
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div style={{ marginBottom: '15px' }}>
+          <label>Mode:</label>
+          <select
+            value={settings.mode}
+            onChange={(e) => updateSettings({ mode: e.target.value as ConversionMode })}
+            style={{ width: '100%', margin: '5px 0', padding: '5px' }}
+          >
+            <option value="brightness">Brightness</option>
+            <option value="edges">Edges (/ \ | _ -)</option>
+            <option value="glyph">Glyph shape</option>
+          </select>
+        </div>
+
+        <div style={{ marginBottom: '15px' }}>
+          <label>Dithering:</label>
+          <select
+            value={settings.dither}
+            onChange={(e) => updateSettings({ dither: e.target.value as DitherAlgorithm })}
+            style={{ width: '100%', margin: '5px 0', padding: '5px' }}
+          >
+            <option value="none">None</option>
+            <option value="floyd-steinberg">Floyd–Steinberg</option>
+            <option value="atkinson">Atkinson</option>
+            <option value="bayer">Ordered (Bayer 4×4)</option>
+          </select>
+        </div>
+
+        <div style={{ marginBottom: '15px' }}>
+          <label>Brightness: {adjustments.brightness}</label>
+          <input
+            type="range"
+            min="-100"
+            max="100"
+            value={adjustments.brightness}
+            onChange={(e) => updateAdjustments({ brightness: parseInt(e.target.value) })}
+            style={{ width: '100%', margin: '5px 0' }}
+          />
+        </div>
+
+        <div style={{ marginBottom: '15px' }}>
+          <label>Contrast: {adjustments.contrast}</label>
+          <input
+            type="range"
+            min="-100"
+            max="100"
+            value={adjustments.contrast}
+            onChange={(e) => updateAdjustments({ contrast: parseInt(e.target.value) })}
+            style={{ width: '100%', margin: '5px 0' }}
+          />
+        </div>
+
+        <div style={{ marginBottom: '15px' }}>
+          <label>Gamma: {adjustments.gamma.toFixed(1)}</label>
+          <input
+            type="range"
+            min="0.2"
+            max="3"
+            step="0.1"
+            value={adjustments.gamma}
+            onChange={(e) => updateAdjustments({ gamma: parseFloat(e.target.value) })}
+            style={{ width: '100%', margin: '5px 0' }}
+          />
+        </div>
+
+        <div style={{ marginBottom: '15px' }}>
+          <label>Auto Levels:</label>
+          <select
+            value={adjustments.autoLevels}
+            onChange={(e) => updateAdjustments({ autoLevels: e.target.value as AutoLevelsMode })}
+            style={{ width: '100%', margin: '5px 0', padding: '5px' }}
+          >
+            <option value="off">Off</option>
+            <option value="stretch">Stretch</option>
+            <option value="equalize">Equalize</option>
+          </select>
+        </div>
+
+        <div style={{ marginBottom: '15px' }}>
+          <label>
+            <input
+              type="checkbox"
+              checked={stabilization.enabled}
+              onChange={(e) => updateStabilization({ enabled: e.target.checked })}
+              style={{ marginRight: '8px' }}
+            />
+            Stabilize
+          </label>
+        </div>
+
+        {stabilization.enabled && (
+          <>
+            <div style={{ marginBottom: '15px' }}>
+              <label>Smoothing: {Math.round(stabilization.smoothing * 100)}%</label>
+              <input
+                type="range"
+                min="0"
+                max="90"
+                value={Math.round(stabilization.smoothing * 100)}
+                onChange={(e) => updateStabilization({ smoothing: parseInt(e.target.value) / 100 })}
+                style={{ width: '100%', margin: '5px 0' }}
+              />
+            </div>
+
+            <div style={{ marginBottom: '15px' }}>
+              <label>Hysteresis: {stabilization.hysteresis}</label>
+              <input
+                type="range"
+                min="0"
+                max="24"
+                value={stabilization.hysteresis}
+                onChange={(e) => updateStabilization({ hysteresis: parseInt(e.target.value) })}
+                style={{ width: '100%', margin: '5px 0' }}
+              />
+            </div>
+          </>
+        )}
+
+        <div style={{ marginBottom: '15px' }}>
+          <label>Renderer:</label>
+          <select
+            value={settings.renderer}
+            onChange={(e) => updateSettings({ renderer: e.target.value as RendererKind })}
+            style={{ width: '100%', margin: '5px 0', padding: '5px' }}
+          >
+            <option value="dom">DOM text</option>
+            <option value="canvas">Canvas 2D (glyph atlas)</option>
           </select>
         </div>
 
@@ -305,9 +1124,92 @@ export const SimpleAsciiMirror: React.FC = () => {
           </label>
         </div>
 
+        <div style={{ marginBottom: '15px' }}>
+          <label>Export Format:</label>
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+            style={{ width: '100%', margin: '5px 0', padding: '5px' }}
+          >
+            <option value="text">Plain text (.txt)</option>
+            <option value="ansi-truecolor">ANSI 24-bit color (.ans)</option>
+            <option value="ansi-256">ANSI 256 colors (.ans)</option>
+            <option value="ansi-16">ANSI 16 colors (.ans)</option>
+            <option value="html">HTML page (.html)</option>
+            <option value="svg">SVG image (.svg)</option>
+          </select>
+        </div>
+
+        <div style={{ marginBottom: '15px' }}>
+          <label>Snapshot Theme:</label>
+          <select
+            value={snapshotTheme}
+            onChange={(e) => setSnapshotTheme(e.target.value as SnapshotTheme)}
+            style={{ width: '100%', margin: '5px 0', padding: '5px' }}
+          >
+            <option value="terminal">Terminal (green on black)</option>
+            <option value="dark">Dark (white on black)</option>
+            <option value="light">Light (black on white)</option>
+          </select>
+        </div>
+
+        <div style={{ marginBottom: '15px' }}>
+          <label>Snapshot Font:</label>
+          <select
+            value={snapshotFont}
+            onChange={(e) => setSnapshotFont(e.target.value)}
+            style={{ width: '100%', margin: '5px 0', padding: '5px' }}
+          >
+            {Object.entries(SNAPSHOT_FONTS).map(([label, fontFamily]) => (
+              <option key={label} value={fontFamily}>{label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div style={{ marginBottom: '15px' }}>
+          <label>PNG Scale: {pngScale}×</label>
+          <input
+            type="range"
+            min="1"
+            max="4"
+            value={pngScale}
+            onChange={(e) => setPngScale(parseInt(e.target.value))}
+            style={{ width: '100%', margin: '5px 0' }}
+          />
+        </div>
+
+        <div style={{ marginBottom: '15px' }}>
+          <label>GIF FPS: {gifFps}</label>
+          <input
+            type="range"
+            min="2"
+            max="30"
+            value={gifFps}
+            onChange={(e) => setGifFps(parseInt(e.target.value))}
+            style={{ width: '100%', margin: '5px 0' }}
+          />
+        </div>
+
+        <div style={{ marginBottom: '15px' }}>
+          <label>GIF Max Width:</label>
+          <select
+            value={gifMaxWidth}
+            onChange={(e) => setGifMaxWidth(parseInt(e.target.value))}
+            style={{ width: '100%', margin: '5px 0', padding: '5px' }}
+          >
+            <option value="480">480 px</option>
+            <option value="640">640 px</option>
+            <option value="960">960 px</option>
+            <option value="1280">1280 px</option>
+          </select>
+          <div style={{ fontSize: '12px', color: '#888' }}>
+            At most {GIF_MAX_FRAMES} frames; the PNG scale is reduced to fit the width
+          </div>
+        </div>
+
         <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap' }}>
           <button
-            onClick={startCamera}
+            onClick={() => restartCamera()}
             style={{
               background: '#333',
               color: '#0f0',
@@ -319,31 +1221,178 @@ export const SimpleAsciiMirror: React.FC = () => {
             Start Camera
           </button>
 
+          <button
+            onClick={shareScreen}
+            style={{
+              background: '#333',
+              color: '#0f0',
+              border: '1px solid #555',
+              padding: '8px 16px',
+              cursor: 'pointer'
+            }}
+          >
+            Share Screen
+          </button>
+
+          <label
+            style={{
+              background: '#333',
+              color: '#0f0',
+              border: '1px solid #555',
+              padding: '8px 16px',
+              cursor: 'pointer'
+            }}
+          >
+            Open Image / Video
+            <input
+              type="file"
+              accept="image/*,video/*"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) openMediaFile(file);
+                e.target.value = '';
+              }}
+              style={{ display: 'none' }}
+            />
+          </label>
+
           <button
             onClick={handleSnapshot}
-            disabled={!ascii}
+            disabled={!hasFrame}
             style={{
               background: '#4CAF50',
               color: 'white',
               border: 'none',
               padding: '8px 16px',
-              cursor: ascii ? 'pointer' : 'not-allowed',
-              opacity: ascii ? 1 : 0.5
+              cursor: hasFrame ? 'pointer' : 'not-allowed',
+              opacity: hasFrame ? 1 : 0.5
+            }}
+          >
+            {`Download .${extension}`}
+          </button>
+
+          <button
+            onClick={handlePngSnapshot}
+            disabled={!hasFrame}
+            style={{
+              background: '#9C27B0',
+              color: 'white',
+              border: 'none',
+              padding: '8px 16px',
+              cursor: hasFrame ? 'pointer' : 'not-allowed',
+              opacity: hasFrame ? 1 : 0.5
+            }}
+          >
+            Download PNG
+          </button>
+
+          <button
+            onClick={toggleRecording}
+            style={{
+              background: isRecording ? '#f44336' : '#333',
+              color: isRecording ? 'white' : '#0f0',
+              border: '1px solid #555',
+              padding: '8px 16px',
+              cursor: 'pointer'
+            }}
+          >
+            {isRecording
+              ? `■ Stop (${recordedFrames}/${MAX_RECORDING_FRAMES})`
+              : '● Record'}
+          </button>
+
+          <button
+            onClick={downloadCast}
+            disabled={!recording || isRecording}
+            style={{
+              background: '#FF9800',
+              color: 'white',
+              border: 'none',
+              padding: '8px 16px',
+              cursor: recording && !isRecording ? 'pointer' : 'not-allowed',
+              opacity: recording && !isRecording ? 1 : 0.5
+            }}
+          >
+            Download .cast
+          </button>
+
+          <button
+            onClick={downloadRecording}
+            disabled={!recording || isRecording}
+            style={{
+              background: '#FF9800',
+              color: 'white',
+              border: 'none',
+              padding: '8px 16px',
+              cursor: recording && !isRecording ? 'pointer' : 'not-allowed',
+              opacity: recording && !isRecording ? 1 : 0.5
+            }}
+          >
+            Download .json
+          </button>
+
+          <button
+            onClick={downloadGif}
+            disabled={!recording || isRecording || gifProgress !== null}
+            style={{
+              background: '#FF9800',
+              color: 'white',
+              border: 'none',
+              padding: '8px 16px',
+              cursor: recording && !isRecording && gifProgress === null ? 'pointer' : 'not-allowed',
+              opacity: recording && !isRecording && gifProgress === null ? 1 : 0.5
+            }}
+          >
+            {gifProgress === null ? 'Download GIF' : `Encoding GIF ${Math.round(gifProgress * 100)}%`}
+          </button>
+
+          <button
+            onClick={() => setPlayback(recording)}
+            disabled={!recording || isRecording}
+            style={{
+              background: '#333',
+              color: '#0f0',
+              border: '1px solid #555',
+              padding: '8px 16px',
+              cursor: recording && !isRecording ? 'pointer' : 'not-allowed',
+              opacity: recording && !isRecording ? 1 : 0.5
             }}
           >
-            Download .txt
+            ▶ Play Recording
           </button>
 
+          <label
+            style={{
+              background: '#333',
+              color: '#0f0',
+              border: '1px solid #555',
+              padding: '8px 16px',
+              cursor: 'pointer'
+            }}
+          >
+            Open Recording
+            <input
+              type="file"
+              accept=".cast,.json,application/json"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) openRecordingFile(file);
+                e.target.value = '';
+              }}
+              style={{ display: 'none' }}
+            />
+          </label>
+
           <button
             onClick={copyToClipboard}
-            disabled={!ascii}
+            disabled={!hasFrame}
             style={{
               background: '#2196F3',
               color: 'white',
               border: 'none',
               padding: '8px 16px',
-              cursor: ascii ? 'pointer' : 'not-allowed',
-              opacity: ascii ? 1 : 0.5
+              cursor: hasFrame ? 'pointer' : 'not-allowed',
+              opacity: hasFrame ? 1 : 0.5
             }}
           >
             Copy to Clipboard
@@ -351,38 +1400,191 @@ export const SimpleAsciiMirror: React.FC = () => {
         </div>
       </div>
 
-      {/* ASCII Display */}
-      <div style={{
-        background: '#111',
-        padding: '10px',
-        border: '1px solid #333',
-        whiteSpace: 'pre',
-        fontSize: '10px',
-        lineHeight: '1',
-        maxHeight: '500px',
-        overflowY: 'auto',
-        marginTop: '20px'
-      }}>
-        {settings.colorMode && colors.length > 0 ? (
-          // Color mode: render each line with its color
-          ascii.split('\n').map((line, index) => (
-            <div
-              key={index}
-              style={{
-                color: colors[index] || '#0f0',
-                margin: 0,
-                padding: 0,
-                lineHeight: '1'
-              }}
+      {/* Player for recordings; also reachable by dropping a .cast or .json file anywhere */}
+      {playback && (
+        <AsciiPlayer recording={playback} renderer={settings.renderer} onClose={() => setPlayback(null)} />
+      )}
+
+      {/* Transport controls for an opened video file */}
+      {!playback && sourceKind === 'video' && (
+        <div style={{ marginTop: '20px' }}>
+          <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap', alignItems: 'center', marginBottom: '10px' }}>
+            <button
+              onClick={toggleVideoPlaying}
+              style={{ background: '#333', color: '#0f0', border: '1px solid #555', padding: '8px 16px', cursor: 'pointer' }}
             >
-              {line}
-            </div>
-          ))
-        ) : (
-          // Normal mode: render as plain text
-          <div style={{ color: '#0f0' }}>
-            {ascii || 'ASCII will appear here...'}
+              {isVideoPlaying ? '❚❚ Pause' : '▶ Play'}
+            </button>
+            <label>
+              <input
+                type="checkbox"
+                checked={isVideoLooping}
+                onChange={(e) => setIsVideoLooping(e.target.checked)}
+                style={{ marginRight: '8px' }}
+              />
+              Loop
+            </label>
+            <span style={{ color: '#888' }}>
+              {videoName} · {videoTime.toFixed(1)}s / {videoDuration.toFixed(1)}s
+            </span>
+            <button
+              onClick={() => restartCamera()}
+              style={{ background: '#333', color: '#0f0', border: '1px solid #555', padding: '8px 16px', cursor: 'pointer' }}
+            >
+              Back to Camera
+            </button>
           </div>
+          <input
+            type="range"
+            min="0"
+            max={videoDuration}
+            step="0.04"
+            value={videoTime}
+            onChange={(e) => seekVideo(parseFloat(e.target.value))}
+            aria-label="Seek video"
+            style={{ width: '100%', margin: '5px 0' }}
+          />
+        </div>
+      )}
+
+      {/* ASCII Display: only rows that changed since the last frame are redrawn */}
+      {!playback && (
+        <AsciiDisplay
+          frame={frame}
+          renderer={settings.renderer}
+          placeholder="ASCII will appear here..."
+          style={{
+            background: '#111',
+            padding: '10px',
+            border: '1px solid #333',
+            whiteSpace: 'pre',
+            fontSize: '10px',
+            lineHeight: '1',
+            maxHeight: '500px',
+            overflowY: 'auto',
+            marginTop: '20px'
+          }}
+        />
+      )}
+
+      {/* Batch image conversion: drop or paste images anywhere, or pick several at once */}
+      <div style={{ margin: '20px 0', padding: '20px', background: '#111', border: '1px solid #333' }}>
+        <h3 style={{ marginBottom: '15px' }}>Batch Images</h3>
+        <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap', alignItems: 'center' }}>
+          <label
+            style={{
+              background: '#333',
+              color: '#0f0',
+              border: '1px solid #555',
+              padding: '8px 16px',
+              cursor: 'pointer'
+            }}
+          >
+            Convert Images
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={(e) => {
+                addBatchImages(imageFiles(e.target.files));
+                e.target.value = '';
+              }}
+              style={{ display: 'none' }}
+            />
+          </label>
+
+          {batchImages.length > 0 && (
+            <>
+              <button
+                onClick={downloadBatchZip}
+                disabled={isConvertingBatch || !batchImages.some(image => image.frame)}
+                style={{
+                  background: '#4CAF50',
+                  color: 'white',
+                  border: 'none',
+                  padding: '8px 16px',
+                  cursor: isConvertingBatch ? 'not-allowed' : 'pointer',
+                  opacity: isConvertingBatch ? 0.5 : 1
+                }}
+              >
+                {`Download ZIP (${batchImages.filter(image => image.frame).length} × .${extension})`}
+              </button>
+              <button
+                onClick={clearBatch}
+                style={{ background: '#333', color: '#0f0', border: '1px solid #555', padding: '8px 16px', cursor: 'pointer' }}
+              >
+                Clear
+              </button>
+            </>
+          )}
+
+          <span style={{ fontSize: '12px', color: '#888' }}>
+            {isConvertingBatch
+              ? 'Converting...'
+              : 'Drop or paste images anywhere; they are converted with the current settings'}
+          </span>
+        </div>
+
+        {batchImages.length > 0 && (
+          <ul aria-label="Batch images" style={{ listStyle: 'none', padding: 0, margin: '15px 0 0' }}>
+            {batchImages.map(image => (
+              <li
+                key={image.id}
+                style={{ display: 'flex', gap: '10px', alignItems: 'center', padding: '4px 0', borderTop: '1px solid #222' }}
+              >
+                <button
+                  onClick={() => setSelectedBatchId(image.id)}
+                  style={{
+                    flex: 1,
+                    textAlign: 'left',
+                    background: 'none',
+                    border: 'none',
+                    color: image.id === selectedBatchId ? '#64ff64' : '#0f0',
+                    fontFamily: 'inherit',
+                    cursor: 'pointer'
+                  }}
+                >
+                  {image.name}
+                </button>
+                <span style={{ color: image.frame ? '#888' : '#f44336' }}>
+                  {image.frame ? `${image.frame.cols}×${image.frame.rows}` : image.error}
+                </span>
+                {image.frame && (
+                  <button
+                    onClick={() => downloadBatchImage(image)}
+                    style={{ background: '#333', color: '#0f0', border: '1px solid #555', padding: '4px 10px', cursor: 'pointer' }}
+                  >
+                    {`.${extension}`}
+                  </button>
+                )}
+                <button
+                  onClick={() => removeBatchImage(image.id)}
+                  aria-label={`Remove ${image.name}`}
+                  style={{ background: '#333', color: '#0f0', border: '1px solid #555', padding: '4px 10px', cursor: 'pointer' }}
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {selectedBatchFrame && (
+          <AsciiDisplay
+            frame={selectedBatchFrame}
+            renderer={settings.renderer}
+            style={{
+              background: '#000',
+              padding: '10px',
+              border: '1px solid #333',
+              whiteSpace: 'pre',
+              fontSize: '10px',
+              lineHeight: '1',
+              maxHeight: '300px',
+              overflowY: 'auto',
+              marginTop: '15px'
+            }}
+          />
         )}
       </div>
 
@@ -393,6 +1595,10 @@ export const SimpleAsciiMirror: React.FC = () => {
         autoPlay
         playsInline
         muted
+        onDurationChange={(e) => setVideoDuration(Number.isFinite(e.currentTarget.duration) ? e.currentTarget.duration : 0)}
+        onTimeUpdate={(e) => setVideoTime(e.currentTarget.currentTime)}
+        onPlay={() => setIsVideoPlaying(true)}
+        onPause={() => setIsVideoPlaying(false)}
       />
     </div>
   );
@@ -24,4 +24,17 @@ describe('calculateGridDimensions', () => {
     expect(result.cols).toBe(40);
     expect(result.rows).toBe(15); // 240 / (320 / 40) * 0.5 = 15
   });
+
+  it('should keep braille dots square', () => {
+    // 2x4 dots per cell: 160 dots across, 120 dots down
+    const result = calculateGridDimensions(640, 480, 80, 'braille');
+    expect(result.cols).toBe(80);
+    expect(result.rows).toBe(30);
+  });
+
+  it('should keep half-block pixels square', () => {
+    // 1x2 pixels per cell: 80 pixels across, 60 pixels down
+    const result = calculateGridDimensions(640, 480, 80, 'halfblock');
+    expect(result.rows).toBe(30);
+  });
 });
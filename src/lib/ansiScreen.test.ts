@@ -0,0 +1,88 @@
+import { AnsiScreen } from './ansiScreen';
+import { frameToAnsi, frameToText } from './ascii';
+import type { AsciiFrame, ConversionSettings } from '../types/ascii';
+
+const settings: ConversionSettings = { charset: 'simple', invert: false, colorMode: true };
+
+const createFrame = (lines: string[], colors?: number[]): AsciiFrame => ({
+  cols: lines[0].length,
+  rows: lines.length,
+  chars: lines.map(line => line.split('')),
+  luminance: new Uint8Array(lines.length * lines[0].length),
+  colors: colors && new Uint8ClampedArray(colors),
+  settings,
+  timestamp: 0
+});
+
+const screenText = (screen: AnsiScreen): string => frameToText(screen.toFrame(0));
+
+describe('AnsiScreen', () => {
+  it('should print text with carriage returns and line feeds', () => {
+    const screen = new AnsiScreen(4, 2);
+    screen.write('ab\r\ncd');
+
+    expect(screenText(screen)).toBe('ab  \ncd  \n');
+  });
+
+  it('should wrap at the right edge and scroll at the bottom', () => {
+    const screen = new AnsiScreen(2, 2);
+    screen.write('abcdef');
+
+    expect(screenText(screen)).toBe('cd\nef\n');
+  });
+
+  it('should move the cursor and erase', () => {
+    const screen = new AnsiScreen(3, 2);
+    screen.write('abc\r\ndef\x1b[1;2Hx\x1b[2;3H\x1b[K\x1b[1D\x1b[1K');
+
+    expect(screenText(screen)).toBe('axc\n   \n');
+
+    screen.write('\x1b[2J\x1b[Hz');
+    expect(screenText(screen)).toBe('z  \n   \n');
+  });
+
+  it('should ignore private and unknown sequences', () => {
+    const screen = new AnsiScreen(3, 1);
+    screen.write('\x1b[?25la\x1b(Bb\x1b[5nc');
+
+    expect(screenText(screen)).toBe('abc\n');
+  });
+
+  it('should leave colors out when the output sets none', () => {
+    const screen = new AnsiScreen(2, 1);
+    screen.write('ab');
+
+    const frame = screen.toFrame(0);
+    expect(frame.colors).toBeUndefined();
+    expect(frame.backgrounds).toBeUndefined();
+  });
+
+  it('should read basic, 256-color and 24-bit SGR colors', () => {
+    const screen = new AnsiScreen(4, 1);
+    screen.write('\x1b[31ma\x1b[38;5;196mb\x1b[38;2;1;2;3mc\x1b[0md');
+
+    expect(Array.from(screen.toFrame(0).colors!)).toEqual([
+      205, 0, 0,
+      255, 0, 0,
+      1, 2, 3,
+      229, 229, 229
+    ]);
+  });
+
+  it('should read backgrounds', () => {
+    const screen = new AnsiScreen(2, 1);
+    screen.write('\x1b[44ma\x1b[49mb');
+
+    expect(Array.from(screen.toFrame(0).backgrounds!)).toEqual([0, 0, 238, 0, 0, 0]);
+  });
+
+  it('should replay truecolor ANSI export exactly', () => {
+    const frame = createFrame(['ab', 'cd'], [10, 20, 30, 10, 20, 30, 200, 0, 0, 0, 200, 0]);
+    const screen = new AnsiScreen(2, 2);
+    screen.write('\x1b[H' + frameToAnsi(frame).replace(/\n$/, '').replace(/\n/g, '\r\n'));
+
+    const replayed = screen.toFrame(0);
+    expect(replayed.chars).toEqual(frame.chars);
+    expect(replayed.colors).toEqual(frame.colors);
+  });
+});
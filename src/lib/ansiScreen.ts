@@ -0,0 +1,251 @@
+/**
+ * Minimal terminal screen for replaying ANSI output as ASCII frames
+ */
+
+import { ANSI_16_PALETTE, ansi256ToRgb } from './ascii';
+import type { AsciiFrame, ConversionSettings } from '../types/ascii';
+
+type Rgb = [number, number, number];
+
+/**
+ * Text color of cells without an explicit SGR color
+ */
+const DEFAULT_FOREGROUND: Rgb = [229, 229, 229];
+
+/**
+ * Background of cells without an explicit SGR background
+ */
+const DEFAULT_BACKGROUND: Rgb = [0, 0, 0];
+
+/**
+ * Settings attached to frames read from terminal output
+ */
+const REPLAY_SETTINGS: ConversionSettings = { invert: false, colorMode: true, charset: 'simple' };
+
+/**
+ * Character grid with a cursor and SGR colors. Understands what terminal
+ * recordings of ASCII art use: printable text, CR/LF/BS, cursor movement,
+ * erase in display/line and SGR colors at all depths. Other sequences are
+ * ignored.
+ */
+export class AnsiScreen {
+  private cols: number;
+  private rows: number;
+  private chars: string[][] = [];
+  private foregrounds: (Rgb | null)[] = [];
+  private backgrounds: (Rgb | null)[] = [];
+  private row = 0;
+  private col = 0;
+  private foreground: Rgb | null = null;
+  private background: Rgb | null = null;
+
+  /**
+   * @param cols Screen width in cells
+   * @param rows Screen height in cells
+   */
+  constructor(cols: number, rows: number) {
+    this.cols = Math.max(1, cols);
+    this.rows = Math.max(1, rows);
+    this.reset();
+  }
+
+  /**
+   * Change the screen size, clearing its content
+   * @param cols Screen width in cells
+   * @param rows Screen height in cells
+   */
+  resize(cols: number, rows: number): void {
+    this.cols = Math.max(1, cols);
+    this.rows = Math.max(1, rows);
+    this.reset();
+  }
+
+  /**
+   * Interpret terminal output
+   * @param data Text with control characters and escape sequences
+   */
+  write(data: string): void {
+    const chars = Array.from(data);
+
+    for (let i = 0; i < chars.length; i++) {
+      const char = chars[i];
+
+      if (char === '\x1b') {
+        if (chars[i + 1] === '[') {
+          let end = i + 2;
+          while (end < chars.length && !/[@-~]/.test(chars[end])) end++;
+          this.control(chars.slice(i + 2, end).join(''), chars[end] ?? '');
+          i = end;
+        } else {
+          // Other escapes: intermediate bytes (charset selection etc.), then a final byte
+          i++;
+          while (i < chars.length && chars[i] >= ' ' && chars[i] <= '/') i++;
+        }
+      } else if (char === '\r') {
+        this.col = 0;
+      } else if (char === '\n') {
+        this.lineFeed();
+      } else if (char === '\b') {
+        this.col = Math.max(0, Math.min(this.col, this.cols - 1) - 1);
+      } else if (char >= ' ') {
+        this.print(char);
+      }
+    }
+  }
+
+  /**
+   * Capture the current screen content
+   * @param timestamp Frame timestamp in milliseconds
+   * @returns Frame with colors where the output set any
+   */
+  toFrame(timestamp: number): AsciiFrame {
+    const size = this.cols * this.rows;
+    const colored = this.foregrounds.some(color => color !== null);
+    const shaded = this.backgrounds.some(color => color !== null);
+    const colors = colored ? new Uint8ClampedArray(size * 3) : undefined;
+    const backgrounds = shaded ? new Uint8ClampedArray(size * 3) : undefined;
+
+    for (let cell = 0; cell < size; cell++) {
+      colors?.set(this.foregrounds[cell] ?? DEFAULT_FOREGROUND, cell * 3);
+      backgrounds?.set(this.backgrounds[cell] ?? DEFAULT_BACKGROUND, cell * 3);
+    }
+
+    return {
+      cols: this.cols,
+      rows: this.rows,
+      chars: this.chars.map(row => row.slice()),
+      luminance: new Uint8Array(size),
+      colors,
+      backgrounds,
+      settings: { ...REPLAY_SETTINGS, colorMode: colored },
+      timestamp
+    };
+  }
+
+  private reset(): void {
+    this.chars = Array.from({ length: this.rows }, () => Array(this.cols).fill(' '));
+    this.foregrounds = Array(this.cols * this.rows).fill(null);
+    this.backgrounds = Array(this.cols * this.rows).fill(null);
+    this.row = 0;
+    this.col = 0;
+  }
+
+  private print(char: string): void {
+    // Deferred wrap: the cursor may sit past the last column until the next character
+    if (this.col >= this.cols) {
+      this.col = 0;
+      this.lineFeed();
+    }
+    const cell = this.row * this.cols + this.col;
+    this.chars[this.row][this.col] = char;
+    this.foregrounds[cell] = this.foreground;
+    this.backgrounds[cell] = this.background;
+    this.col++;
+  }
+
+  private lineFeed(): void {
+    if (this.row < this.rows - 1) {
+      this.row++;
+      return;
+    }
+    // Scroll up one line
+    this.chars.shift();
+    this.chars.push(Array(this.cols).fill(' '));
+    this.foregrounds.splice(0, this.cols);
+    this.foregrounds.push(...Array(this.cols).fill(null));
+    this.backgrounds.splice(0, this.cols);
+    this.backgrounds.push(...Array(this.cols).fill(null));
+  }
+
+  private erase(from: number, to: number): void {
+    for (let cell = from; cell < to; cell++) {
+      this.chars[Math.floor(cell / this.cols)][cell % this.cols] = ' ';
+      this.foregrounds[cell] = null;
+      this.backgrounds[cell] = this.background;
+    }
+  }
+
+  /**
+   * Apply a CSI sequence
+   */
+  private control(params: string, final: string): void {
+    // Private sequences such as cursor visibility
+    if (params.startsWith('?')) return;
+
+    const values = params.split(';').map(value => parseInt(value, 10));
+    const count = Math.max(1, values[0] || 1);
+    const cursor = this.row * this.cols + Math.min(this.col, this.cols - 1);
+
+    switch (final) {
+      case 'H':
+      case 'f':
+        this.row = Math.min(this.rows - 1, Math.max(0, (values[0] || 1) - 1));
+        this.col = Math.min(this.cols - 1, Math.max(0, (values[1] || 1) - 1));
+        break;
+      case 'A':
+        this.row = Math.max(0, this.row - count);
+        break;
+      case 'B':
+        this.row = Math.min(this.rows - 1, this.row + count);
+        break;
+      case 'C':
+        this.col = Math.min(this.cols - 1, this.col + count);
+        break;
+      case 'D':
+        this.col = Math.max(0, Math.min(this.col, this.cols - 1) - count);
+        break;
+      case 'J':
+        if (values[0] === 1) this.erase(0, cursor + 1);
+        else if (values[0] === 2 || values[0] === 3) this.erase(0, this.cols * this.rows);
+        else this.erase(cursor, this.cols * this.rows);
+        break;
+      case 'K': {
+        const lineStart = this.row * this.cols;
+        if (values[0] === 1) this.erase(lineStart, cursor + 1);
+        else if (values[0] === 2) this.erase(lineStart, lineStart + this.cols);
+        else this.erase(cursor, lineStart + this.cols);
+        break;
+      }
+      case 'm':
+        this.graphics(values.map(value => (Number.isNaN(value) ? 0 : value)));
+        break;
+    }
+  }
+
+  /**
+   * Apply SGR parameters
+   */
+  private graphics(values: number[]): void {
+    for (let i = 0; i < values.length; i++) {
+      const value = values[i];
+
+      if (value === 0) {
+        this.foreground = null;
+        this.background = null;
+      } else if (value === 38 || value === 48) {
+        let color: Rgb | null = null;
+        if (values[i + 1] === 5) {
+          color = ansi256ToRgb(values[i + 2] ?? 0);
+          i += 2;
+        } else if (values[i + 1] === 2) {
+          color = [values[i + 2] ?? 0, values[i + 3] ?? 0, values[i + 4] ?? 0];
+          i += 4;
+        }
+        if (value === 38) this.foreground = color;
+        else this.background = color;
+      } else if (value === 39) {
+        this.foreground = null;
+      } else if (value === 49) {
+        this.background = null;
+      } else if (value >= 30 && value <= 37) {
+        this.foreground = [...ANSI_16_PALETTE[value - 30]] as Rgb;
+      } else if (value >= 90 && value <= 97) {
+        this.foreground = [...ANSI_16_PALETTE[value - 90 + 8]] as Rgb;
+      } else if (value >= 40 && value <= 47) {
+        this.background = [...ANSI_16_PALETTE[value - 40]] as Rgb;
+      } else if (value >= 100 && value <= 107) {
+        this.background = [...ANSI_16_PALETTE[value - 100 + 8]] as Rgb;
+      }
+    }
+  }
+}
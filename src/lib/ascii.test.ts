@@ -1,10 +1,49 @@
 import {
+  adjustLuminance,
+  brailleCharacter,
+  computeHistogram,
+  createToneCurve,
+  DEFAULT_ADJUSTMENTS,
   imageDataToAscii,
   createBrightnessLUT,
   CHARSETS,
   calculateLuminance,
+  calculateReadbackSize,
+  cellColor,
+  computeCellGradients,
+  computeIntegralImage,
+  createTemporalState,
+  diffFrames,
+  resolveFrameChanges,
+  rgbToAnsi16,
+  rgbToAnsi256,
+  ansi256ToRgb,
+  DEFAULT_STABILIZATION,
+  holdLevels,
+  ditherLuminance,
+  edgeCharacter,
+  EDGE_CHARS,
+  frameToAnsi,
+  frameToText,
+  groupColorRuns,
+  lutLevelStarts,
+  sampleGrid,
+  sampleSubCells,
+  stabilizeLuminance,
   AsciiConverter
 } from './ascii';
+import { createGlyphSet } from './glyphs';
+import type { AsciiFrame, ConversionSettings, DitherAlgorithm } from '../types/ascii';
+
+const mockFrame = (cols: number, rows: number, settings: ConversionSettings): AsciiFrame => ({
+  cols,
+  rows,
+  chars: Array.from({ length: rows }, () => Array(cols).fill('@')),
+  luminance: new Uint8Array(cols * rows).fill(255),
+  colors: settings.colorMode ? new Uint8ClampedArray(cols * rows * 3).fill(128) : undefined,
+  settings,
+  timestamp: 0
+});
 
 // Mock AsciiConverter to avoid canvas dependency in tests
 jest.mock('./ascii', () => {
@@ -13,37 +52,9 @@ jest.mock('./ascii', () => {
   return {
     ...originalModule,
     AsciiConverter: jest.fn().mockImplementation(() => ({
-      convertVideoFrame: jest.fn((video, cols, rows, lut, colorMode) => {
-        // Simple mock that returns predictable ASCII based on parameters
-        const mockAscii = '@'.repeat(cols) + '\n';
-        const result: any = { ascii: mockAscii.repeat(rows).slice(0, -1) };
-
-        if (colorMode) {
-          result.colors = Array(rows).fill('rgb(128, 128, 128)');
-        }
-
-        return result;
-      }),
-      convertImage: jest.fn((image, cols, rows, lut, colorMode) => {
-        const mockAscii = '@'.repeat(cols) + '\n';
-        const result: any = { ascii: mockAscii.repeat(rows).slice(0, -1) };
-
-        if (colorMode) {
-          result.colors = Array(rows).fill('rgb(128, 128, 128)');
-        }
-
-        return result;
-      }),
-      convertImageBitmap: jest.fn((bitmap, cols, rows, lut, colorMode) => {
-        const mockAscii = '@'.repeat(cols) + '\n';
-        const result: any = { ascii: mockAscii.repeat(rows).slice(0, -1) };
-
-        if (colorMode) {
-          result.colors = Array(rows).fill('rgb(128, 128, 128)');
-        }
-
-        return result;
-      })
+      convertVideoFrame: jest.fn((_video, cols, rows, _lut, settings) => mockFrame(cols, rows, settings)),
+      convertImage: jest.fn((_image, cols, rows, _lut, settings) => mockFrame(cols, rows, settings)),
+      convertImageBitmap: jest.fn((_bitmap, cols, rows, _lut, settings) => mockFrame(cols, rows, settings))
     }))
   };
 });
@@ -122,70 +133,98 @@ describe('ASCII Library', () => {
     });
   });
 
-  describe('imageDataToAscii', () => {
-    const createMockImageData = (width: number, height: number, color: [number, number, number, number] = [255, 255, 255, 255]): ImageData => {
-      const data = new Uint8ClampedArray(width * height * 4);
-      for (let i = 0; i < data.length; i += 4) {
-        data[i] = color[0];     // R
-        data[i + 1] = color[1]; // G
-        data[i + 2] = color[2]; // B
-        data[i + 3] = color[3]; // A
-      }
-      return {
-        data,
-        width,
-        height,
-        colorSpace: 'srgb' as any
-      } as ImageData;
-    };
+  const createMockImageData = (width: number, height: number, color: [number, number, number, number] = [255, 255, 255, 255]): ImageData => {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < data.length; i += 4) {
+      data[i] = color[0];     // R
+      data[i + 1] = color[1]; // G
+      data[i + 2] = color[2]; // B
+      data[i + 3] = color[3]; // A
+    }
+    return {
+      data,
+      width,
+      height,
+      colorSpace: 'srgb' as any
+    } as ImageData;
+  };
 
+  const monoSettings: ConversionSettings = { charset: 'simple', invert: false, colorMode: false };
+  const colorSettings: ConversionSettings = { ...monoSettings, colorMode: true };
+
+  describe('imageDataToAscii', () => {
     it('should convert image data to ASCII without colors', () => {
       const imageData = createMockImageData(2, 2, [255, 255, 255, 255]); // White image
       const lut = createBrightnessLUT(CHARSETS.simple, false);
-      const result = imageDataToAscii(imageData, 2, 2, lut, false);
+      const result = imageDataToAscii(imageData, 2, 2, lut, monoSettings);
 
-      expect(result.ascii).toContain('@'); // White should map to brightest character
+      expect(frameToText(result)).toContain('@'); // White should map to brightest character
       expect(result.colors).toBeUndefined();
     });
 
     it('should convert image data to ASCII with colors', () => {
       const imageData = createMockImageData(2, 2, [255, 255, 255, 255]); // White image (bright)
       const lut = createBrightnessLUT(CHARSETS.simple, false);
-      const result = imageDataToAscii(imageData, 2, 2, lut, true);
+      const result = imageDataToAscii(imageData, 2, 2, lut, colorSettings);
 
-      expect(result.ascii).toContain('@'); // White should map to brightest character
+      expect(frameToText(result)).toContain('@'); // White should map to brightest character
       expect(result.colors).toBeDefined();
-      expect(result.colors).toHaveLength(2); // 2 rows
-      expect(result.colors![0]).toBe('rgb(255, 255, 255)'); // White color
+      expect(result.colors).toHaveLength(2 * 2 * 3); // RGB per cell
+      expect(cellColor(result.colors!, 0)).toBe('rgb(255, 255, 255)'); // White color
+    });
+
+    it('should report a separate color for every cell', () => {
+      // Left half red, right half blue
+      const data = new Uint8ClampedArray(2 * 1 * 4);
+      data.set([255, 0, 0, 255, 0, 0, 255, 255]);
+      const imageData = { data, width: 2, height: 1, colorSpace: 'srgb' } as ImageData;
+      const lut = createBrightnessLUT(CHARSETS.simple, false);
+      const result = imageDataToAscii(imageData, 2, 1, lut, colorSettings);
+
+      expect(cellColor(result.colors!, 0)).toBe('rgb(255, 0, 0)');
+      expect(cellColor(result.colors!, 1)).toBe('rgb(0, 0, 255)');
     });
 
     it('should handle black image correctly', () => {
       const imageData = createMockImageData(2, 2, [0, 0, 0, 255]); // Black image
       const lut = createBrightnessLUT(CHARSETS.simple, false);
-      const result = imageDataToAscii(imageData, 2, 2, lut, false);
+      const result = imageDataToAscii(imageData, 2, 2, lut, monoSettings);
 
-      expect(result.ascii).toContain(' '); // Black should map to darkest character
+      expect(frameToText(result)).toContain(' '); // Black should map to darkest character
     });
 
     it('should handle different grid sizes', () => {
       const imageData = createMockImageData(4, 4, [128, 128, 128, 255]); // Gray image
       const lut = createBrightnessLUT(CHARSETS.simple, false);
 
-      const result2x2 = imageDataToAscii(imageData, 2, 2, lut, false); // Smaller grid
-      const result4x4 = imageDataToAscii(imageData, 4, 4, lut, false); // Larger grid
+      const result2x2 = imageDataToAscii(imageData, 2, 2, lut, monoSettings); // Smaller grid
+      const result4x4 = imageDataToAscii(imageData, 4, 4, lut, monoSettings); // Larger grid
 
-      // Larger grid should produce more characters (including newlines)
-      expect(result4x4.ascii.length).toBeGreaterThan(result2x2.ascii.length);
-      expect(result2x2.ascii.split('\n')).toHaveLength(3); // 2 rows + 1 newline
-      expect(result4x4.ascii.split('\n')).toHaveLength(5); // 4 rows + 1 newline
+      // Larger grid should produce more cells
+      expect(result4x4.chars.flat().length).toBeGreaterThan(result2x2.chars.flat().length);
+      expect(result2x2.chars).toHaveLength(2);
+      expect(result4x4.chars).toHaveLength(4);
+      expect(result4x4.chars[0]).toHaveLength(4);
+    });
+
+    it('should describe the frame it produced', () => {
+      const imageData = createMockImageData(4, 2, [128, 128, 128, 255]);
+      const lut = createBrightnessLUT(CHARSETS.simple, false);
+      const result = imageDataToAscii(imageData, 4, 2, lut, monoSettings);
+
+      expect(result.cols).toBe(4);
+      expect(result.rows).toBe(2);
+      expect(result.settings).toBe(monoSettings);
+      expect(typeof result.timestamp).toBe('number');
+      expect(Array.from(result.luminance)).toEqual(Array(8).fill(128));
     });
 
     it('should handle empty image data', () => {
       const emptyImageData = createMockImageData(0, 0);
       const lut = createBrightnessLUT(CHARSETS.simple, false);
-      const result = imageDataToAscii(emptyImageData, 1, 1, lut, false);
+      const result = imageDataToAscii(emptyImageData, 1, 1, lut, monoSettings);
 
-      expect(result.ascii).toBe(' \n');
+      expect(frameToText(result)).toBe(' \n');
     });
   });
 
@@ -205,11 +244,11 @@ describe('ASCII Library', () => {
       } as HTMLVideoElement;
 
       const lut = createBrightnessLUT(CHARSETS.simple, false);
-      const result = converter.convertVideoFrame(mockVideo, 80, 24, lut, false);
+      const result = converter.convertVideoFrame(mockVideo, 80, 24, lut, monoSettings);
 
-      expect(result.ascii).toBeDefined();
-      expect(typeof result.ascii).toBe('string');
-      expect(result.ascii.length).toBeGreaterThan(0);
+      expect(result.cols).toBe(80);
+      expect(result.rows).toBe(24);
+      expect(frameToText(result).length).toBeGreaterThan(0);
     });
 
     it('should convert image correctly', () => {
@@ -222,10 +261,10 @@ describe('ASCII Library', () => {
       } as HTMLImageElement;
 
       const lut = createBrightnessLUT(CHARSETS.simple, false);
-      const result = converter.convertImage(mockImage, 10, 10, lut, false);
+      const result = converter.convertImage(mockImage, 10, 10, lut, monoSettings);
 
-      expect(result.ascii).toBeDefined();
-      expect(typeof result.ascii).toBe('string');
+      expect(result.chars).toHaveLength(10);
+      expect(typeof frameToText(result)).toBe('string');
     });
 
     it('should convert ImageBitmap correctly', () => {
@@ -236,10 +275,10 @@ describe('ASCII Library', () => {
       } as ImageBitmap;
 
       const lut = createBrightnessLUT(CHARSETS.simple, false);
-      const result = converter.convertImageBitmap(mockBitmap, 10, 10, lut, false);
+      const result = converter.convertImageBitmap(mockBitmap, 10, 10, lut, monoSettings);
 
-      expect(result.ascii).toBeDefined();
-      expect(typeof result.ascii).toBe('string');
+      expect(result.chars).toHaveLength(10);
+      expect(typeof frameToText(result)).toBe('string');
     });
 
     it('should handle color mode in video conversion', () => {
@@ -251,12 +290,735 @@ describe('ASCII Library', () => {
       } as HTMLVideoElement;
 
       const lut = createBrightnessLUT(CHARSETS.simple, false);
-      const result = converter.convertVideoFrame(mockVideo, 32, 12, lut, true);
+      const result = converter.convertVideoFrame(mockVideo, 32, 12, lut, colorSettings);
 
-      expect(result.ascii).toBeDefined();
+      expect(result.chars).toHaveLength(12);
       expect(result.colors).toBeDefined();
-      expect(Array.isArray(result.colors)).toBe(true);
-      expect(result.colors!.length).toBe(12); // 12 rows
+      expect(result.colors).toBeInstanceOf(Uint8ClampedArray);
+      expect(result.colors!.length).toBe(32 * 12 * 3); // RGB per cell
+    });
+  });
+
+  describe('edge mode', () => {
+    const edgeSettings: ConversionSettings = { ...monoSettings, mode: 'edges' };
+
+    // 32x32 image that is white wherever inside(x, y) holds
+    const createShapeImageData = (inside: (x: number, y: number) => boolean): ImageData => {
+      const size = 32;
+      const data = new Uint8ClampedArray(size * size * 4);
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          const value = inside(x, y) ? 255 : 0;
+          data.set([value, value, value, 255], (y * size + x) * 4);
+        }
+      }
+      return { data, width: size, height: size, colorSpace: 'srgb' } as ImageData;
+    };
+
+    it('should map gradient orientations to directional glyphs', () => {
+      expect(edgeCharacter(0)).toBe('|');
+      expect(edgeCharacter(Math.PI / 2)).toBe('-');
+      expect(edgeCharacter(-Math.PI / 2, 0.9)).toBe('_');
+      expect(edgeCharacter(Math.PI / 4)).toBe('/');
+      expect(edgeCharacter(-Math.PI / 4)).toBe('\\');
+    });
+
+    it('should draw a vertical edge with pipes', () => {
+      const imageData = createShapeImageData((x) => x >= 16);
+      const lut = createBrightnessLUT(CHARSETS.simple, false);
+      const result = imageDataToAscii(imageData, 4, 4, lut, edgeSettings);
+
+      result.chars.forEach(row => {
+        expect(row[0]).toBe(' ');
+        expect(row[1]).toBe(EDGE_CHARS.vertical);
+        expect(row[2]).toBe(EDGE_CHARS.vertical);
+        expect(row[3]).toBe('@');
+      });
+    });
+
+    it('should draw a horizontal edge with dashes and underscores', () => {
+      const imageData = createShapeImageData((_x, y) => y >= 16);
+      const lut = createBrightnessLUT(CHARSETS.simple, false);
+      const result = imageDataToAscii(imageData, 4, 4, lut, edgeSettings);
+
+      expect(result.chars[1]).toEqual(Array(4).fill(EDGE_CHARS.horizontalLow));
+      expect(result.chars[2]).toEqual(Array(4).fill(EDGE_CHARS.horizontal));
+    });
+
+    it('should draw diagonal edges with slashes', () => {
+      const lut = createBrightnessLUT(CHARSETS.simple, false);
+      const falling = imageDataToAscii(createShapeImageData((x, y) => x > y), 4, 4, lut, edgeSettings);
+      const rising = imageDataToAscii(createShapeImageData((x, y) => x + y > 31), 4, 4, lut, edgeSettings);
+
+      expect(falling.chars[1][1]).toBe(EDGE_CHARS.falling);
+      expect(falling.chars[2][2]).toBe(EDGE_CHARS.falling);
+      expect(rising.chars[1][2]).toBe(EDGE_CHARS.rising);
+      expect(rising.chars[2][1]).toBe(EDGE_CHARS.rising);
+    });
+
+    it('should fall back to the brightness ramp on flat areas', () => {
+      const imageData = createMockImageData(8, 8, [128, 128, 128, 255]);
+      const lut = createBrightnessLUT(CHARSETS.simple, false);
+      const edges = imageDataToAscii(imageData, 2, 2, lut, edgeSettings);
+      const plain = imageDataToAscii(imageData, 2, 2, lut, monoSettings);
+
+      expect(edges.chars).toEqual(plain.chars);
+    });
+
+    it('should report zero magnitude for flat cells', () => {
+      const gradients = computeCellGradients(createMockImageData(8, 8), 2, 2);
+      expect(Array.from(gradients.magnitude)).toEqual([0, 0, 0, 0]);
+    });
+  });
+
+  describe('glyph mode', () => {
+    // Synthetic 4x6 glyphs: blank, vertical bar in the middle columns, full block
+    const bar = Array.from({ length: 24 }, (_, i) => (i % 4 === 1 || i % 4 === 2 ? 1 : 0));
+    const glyphSet = createGlyphSet(
+      [' ', '|', '#'],
+      [new Float32Array(24), Float32Array.from(bar), new Float32Array(24).fill(1)],
+      4,
+      6
+    );
+    const glyphSettings: ConversionSettings = { ...monoSettings, mode: 'glyph' };
+
+    // One 8x12 cell with a white band at 2 <= x < 6
+    const createBarImageData = (): ImageData => {
+      const data = new Uint8ClampedArray(8 * 12 * 4);
+      for (let y = 0; y < 12; y++) {
+        for (let x = 0; x < 8; x++) {
+          const value = x >= 2 && x < 6 ? 255 : 0;
+          data.set([value, value, value, 255], (y * 8 + x) * 4);
+        }
+      }
+      return { data, width: 8, height: 12, colorSpace: 'srgb' } as ImageData;
+    };
+
+    it('should sample sub-cells inside each cell', () => {
+      const samples = sampleSubCells(createBarImageData(), 1, 1, 4, 6);
+
+      expect(samples).toHaveLength(24);
+      expect(Array.from(samples.slice(0, 4)).map(Math.round)).toEqual([0, 255, 255, 0]);
+    });
+
+    it('should pick the glyph matching the cell shape', () => {
+      const lut = createBrightnessLUT(' |#');
+      const result = imageDataToAscii(createBarImageData(), 1, 1, lut, glyphSettings, glyphSet);
+      const brightness = imageDataToAscii(createBarImageData(), 1, 1, lut, monoSettings);
+
+      expect(result.chars[0][0]).toBe('|');
+      expect(brightness.chars[0][0]).not.toBe('|');
+    });
+
+    it('should match dense glyphs to dark areas when inverted', () => {
+      const lut = createBrightnessLUT(' |#', true);
+      const black = createMockImageData(8, 12, [0, 0, 0, 255]);
+      const result = imageDataToAscii(black, 1, 1, lut, { ...glyphSettings, invert: true }, glyphSet);
+
+      expect(result.chars[0][0]).toBe('#');
+    });
+
+    it('should fall back to the brightness ramp without glyphs', () => {
+      const lut = createBrightnessLUT(CHARSETS.simple);
+      const white = createMockImageData(8, 12);
+      const result = imageDataToAscii(white, 1, 1, lut, glyphSettings);
+
+      expect(result.chars[0][0]).toBe('@');
+    });
+  });
+
+  describe('sub-pixel charsets', () => {
+    // Image built from a row-major grid of 0/1 pixels
+    const createBitmapImageData = (pixels: number[][]): ImageData => {
+      const height = pixels.length;
+      const width = pixels[0].length;
+      const data = new Uint8ClampedArray(width * height * 4);
+      pixels.forEach((line, y) => line.forEach((on, x) => {
+        const value = on ? 255 : 0;
+        data.set([value, value, value, 255], (y * width + x) * 4);
+      }));
+      return { data, width, height, colorSpace: 'srgb' } as ImageData;
+    };
+
+    it('should compose braille characters from dot bits', () => {
+      expect(brailleCharacter(0)).toBe('⠀');
+      expect(brailleCharacter(0xff)).toBe('⣿');
+      expect(brailleCharacter(0x01 | 0x08)).toBe('⠉');
+    });
+
+    it('should map each 2x4 block to one braille pattern', () => {
+      const imageData = createBitmapImageData([
+        [1, 0, 0, 0],
+        [1, 0, 0, 0],
+        [1, 0, 0, 1],
+        [1, 1, 0, 1]
+      ]);
+      const lut = createBrightnessLUT(CHARSETS.braille);
+      const result = imageDataToAscii(imageData, 2, 1, lut, { ...monoSettings, charset: 'braille' });
+
+      // Left cell: dots 1,2,3,7 and 8; right cell: dots 6 and 8
+      expect(result.chars[0]).toEqual([brailleCharacter(0x01 | 0x02 | 0x04 | 0x40 | 0x80), brailleCharacter(0x20 | 0x80)]);
+    });
+
+    it('should invert braille dots', () => {
+      const imageData = createMockImageData(2, 4, [0, 0, 0, 255]);
+      const lut = createBrightnessLUT(CHARSETS.braille, true);
+      const result = imageDataToAscii(imageData, 1, 1, lut, { ...monoSettings, charset: 'braille', invert: true });
+
+      expect(result.chars[0][0]).toBe('⣿');
+    });
+
+    it('should dither braille dots on flat gray', () => {
+      const imageData = createMockImageData(8, 8, [128, 128, 128, 255]);
+      const lut = createBrightnessLUT(CHARSETS.braille);
+      const result = imageDataToAscii(imageData, 4, 2, lut, { ...monoSettings, charset: 'braille', dither: 'bayer' });
+      const dots = result.chars.flat().reduce((sum, char) => {
+        const bits = char.charCodeAt(0) - 0x2800;
+        return sum + bits.toString(2).split('1').length - 1;
+      }, 0);
+
+      expect(dots).toBe(32); // Half of the 64 dots
+    });
+
+    it('should draw thresholded half blocks without color', () => {
+      const imageData = createBitmapImageData([
+        [1, 0, 1, 0],
+        [0, 1, 1, 0]
+      ]);
+      const lut = createBrightnessLUT(CHARSETS.halfblock);
+      const result = imageDataToAscii(imageData, 4, 1, lut, { ...monoSettings, charset: 'halfblock' });
+
+      expect(result.chars[0]).toEqual(['▀', '▄', '█', ' ']);
+      expect(result.backgrounds).toBeUndefined();
+    });
+
+    it('should paint half blocks with foreground and background colors', () => {
+      const data = new Uint8ClampedArray([255, 0, 0, 255, 0, 0, 255, 255]);
+      const imageData = { data, width: 1, height: 2, colorSpace: 'srgb' } as ImageData;
+      const lut = createBrightnessLUT(CHARSETS.halfblock);
+      const result = imageDataToAscii(imageData, 1, 1, lut, { ...colorSettings, charset: 'halfblock' });
+
+      expect(result.chars[0][0]).toBe('▀');
+      expect(cellColor(result.colors!, 0)).toBe('rgb(255, 0, 0)');
+      expect(cellColor(result.backgrounds!, 0)).toBe('rgb(0, 0, 255)');
+      expect(groupColorRuns(result, 0)).toEqual([
+        { text: '▀', cells: 1, color: 'rgb(255, 0, 0)', background: 'rgb(0, 0, 255)' }
+      ]);
+    });
+  });
+
+  describe('image adjustments', () => {
+    it('should leave luminance unchanged with default adjustments', () => {
+      const curve = createToneCurve(DEFAULT_ADJUSTMENTS);
+      expect(Array.from(curve)).toEqual(Array.from({ length: 256 }, (_, i) => i));
+    });
+
+    it('should shift brightness', () => {
+      const curve = createToneCurve({ ...DEFAULT_ADJUSTMENTS, brightness: 20 });
+      expect(curve[0]).toBe(51);
+      expect(curve[100]).toBe(151);
+      expect(curve[255]).toBe(255);
+    });
+
+    it('should spread values away from mid gray with contrast', () => {
+      const curve = createToneCurve({ ...DEFAULT_ADJUSTMENTS, contrast: 50 });
+      expect(curve[64]).toBeLessThan(64);
+      expect(curve[192]).toBeGreaterThan(192);
+      expect(curve[128]).toBe(128);
+    });
+
+    it('should brighten midtones with gamma above 1', () => {
+      const curve = createToneCurve({ ...DEFAULT_ADJUSTMENTS, gamma: 2 });
+      expect(curve[0]).toBe(0);
+      expect(curve[64]).toBe(128);
+      expect(curve[255]).toBe(255);
+    });
+
+    it('should stretch a narrow histogram to the full range', () => {
+      const luminance = new Uint8Array(100).map((_, i) => 100 + Math.floor(i / 2));
+      const adjusted = adjustLuminance(luminance, { ...DEFAULT_ADJUSTMENTS, autoLevels: 'stretch' });
+
+      expect(Math.min(...adjusted)).toBe(0);
+      expect(Math.max(...adjusted)).toBe(255);
+    });
+
+    it('should equalize a skewed histogram', () => {
+      // Most cells dark, a few bright
+      const luminance = new Uint8Array([10, 10, 10, 10, 12, 12, 14, 200]);
+      const adjusted = adjustLuminance(luminance, { ...DEFAULT_ADJUSTMENTS, autoLevels: 'equalize' });
+
+      expect(Array.from(adjusted)).toEqual([0, 0, 0, 0, 128, 128, 191, 255]);
+    });
+
+    it('should count luminance values', () => {
+      const histogram = computeHistogram(new Uint8Array([0, 0, 255]));
+      expect(histogram[0]).toBe(2);
+      expect(histogram[255]).toBe(1);
+    });
+
+    it('should use the full charset for a low-contrast image in imageDataToAscii', () => {
+      const data = new Uint8ClampedArray(10 * 4);
+      for (let x = 0; x < 10; x++) {
+        const value = 110 + x * 4;
+        data.set([value, value, value, 255], x * 4);
+      }
+      const imageData = { data, width: 10, height: 1, colorSpace: 'srgb' } as ImageData;
+      const lut = createBrightnessLUT(CHARSETS.simple);
+      const plain = imageDataToAscii(imageData, 10, 1, lut, monoSettings);
+      const stretched = imageDataToAscii(imageData, 10, 1, lut, {
+        ...monoSettings,
+        adjustments: { ...DEFAULT_ADJUSTMENTS, autoLevels: 'stretch' }
+      });
+
+      expect(plain.chars[0]).not.toContain(' ');
+      expect(plain.chars[0]).not.toContain('@');
+      expect(stretched.chars[0][0]).toBe(' ');
+      expect(stretched.chars[0][9]).toBe('@');
+    });
+  });
+
+  describe('dithering', () => {
+    // Horizontal 0..255 ramp, identical on every row
+    const createGradient = (cols: number, rows: number): Uint8Array => {
+      const values = new Uint8Array(cols * rows);
+      for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+          values[row * cols + col] = Math.round(col * 255 / (cols - 1));
+        }
+      }
+      return values;
+    };
+
+    // Mean absolute difference between 8x8 block averages of the source and the quantized output
+    const blockError = (source: Uint8Array, levels: ArrayLike<number>, cols: number, rows: number, step: number): number => {
+      let total = 0;
+      let blocks = 0;
+      for (let by = 0; by < rows; by += 8) {
+        for (let bx = 0; bx < cols; bx += 8) {
+          let sourceSum = 0;
+          let outputSum = 0;
+          for (let y = by; y < by + 8; y++) {
+            for (let x = bx; x < bx + 8; x++) {
+              sourceSum += source[y * cols + x];
+              outputSum += levels[y * cols + x] * step;
+            }
+          }
+          total += Math.abs(sourceSum - outputSum) / 64;
+          blocks++;
+        }
+      }
+      return total / blocks;
+    };
+
+    it('should find the start of every LUT level', () => {
+      expect(lutLevelStarts(createBrightnessLUT(' @'))).toEqual([0, 255]);
+      expect(lutLevelStarts(createBrightnessLUT(CHARSETS.blocks))).toEqual([0, 64, 128, 192, 255]);
+      expect(lutLevelStarts(createBrightnessLUT(CHARSETS.blocks, true))).toHaveLength(5);
+    });
+
+    it('should diffuse error with Floyd-Steinberg', () => {
+      const flat = new Uint8Array([128, 128, 128, 128]);
+      expect(Array.from(ditherLuminance(flat, 4, 1, 2, 'floyd-steinberg'))).toEqual([1, 0, 1, 0]);
+    });
+
+    it('should produce a 50% pattern for mid gray with Bayer', () => {
+      const flat = new Uint8Array(16).fill(128);
+      const levels = ditherLuminance(flat, 4, 4, 2, 'bayer');
+      expect(Array.from(levels)).toEqual([
+        0, 1, 0, 1,
+        1, 0, 1, 0,
+        0, 1, 0, 1,
+        1, 0, 1, 0
+      ]);
+    });
+
+    it.each<Exclude<DitherAlgorithm, 'none'>>(['floyd-steinberg', 'atkinson', 'bayer'])(
+      'should follow a gradient more closely than plain quantization (%s)',
+      (algorithm) => {
+        const cols = 64;
+        const rows = 16;
+        const gradient = createGradient(cols, rows);
+        const lut = createBrightnessLUT(CHARSETS.blocks);
+        const starts = lutLevelStarts(lut);
+        const plain = Array.from(gradient, value => starts.filter(start => start <= value).length - 1);
+        const dithered = ditherLuminance(gradient, cols, rows, starts.length, algorithm);
+        const step = 255 / (starts.length - 1);
+
+        expect(blockError(gradient, dithered, cols, rows, step)).toBeLessThan(
+          blockError(gradient, plain, cols, rows, step)
+        );
+        expect(blockError(gradient, dithered, cols, rows, step)).toBeLessThan(step / 4);
+      }
+    );
+
+    it('should be deterministic', () => {
+      const gradient = createGradient(32, 8);
+      const first = ditherLuminance(gradient, 32, 8, 5, 'atkinson');
+      const second = ditherLuminance(gradient, 32, 8, 5, 'atkinson');
+      expect(Array.from(first)).toEqual(Array.from(second));
+    });
+
+    it('should mix neighbouring characters on flat areas in imageDataToAscii', () => {
+      const imageData = createMockImageData(8, 8, [100, 100, 100, 255]);
+      const lut = createBrightnessLUT(CHARSETS.blocks);
+      const plain = imageDataToAscii(imageData, 8, 8, lut, monoSettings);
+      const dithered = imageDataToAscii(imageData, 8, 8, lut, { ...monoSettings, dither: 'bayer' });
+
+      expect(new Set(plain.chars.flat())).toEqual(new Set(['░']));
+      expect(new Set(dithered.chars.flat())).toEqual(new Set(['░', '▒']));
+    });
+  });
+
+  describe('frameToText', () => {
+    it('should join rows with trailing newlines', () => {
+      const frame = mockFrame(3, 2, monoSettings);
+      expect(frameToText(frame)).toBe('@@@\n@@@\n');
+    });
+  });
+
+  describe('ANSI export', () => {
+    const colorFrame = (): AsciiFrame => ({
+      ...mockFrame(3, 2, colorSettings),
+      chars: [['a', 'b', 'c'], ['x', 'y', 'z']],
+      colors: new Uint8ClampedArray([
+        255, 0, 0, 255, 0, 0, 0, 0, 255,
+        0, 255, 0, 0, 255, 0, 0, 255, 0
+      ])
+    });
+
+    it('should emit truecolor sequences only where the color changes', () => {
+      expect(frameToAnsi(colorFrame(), 'truecolor')).toBe(
+        '\x1b[38;2;255;0;0mab\x1b[38;2;0;0;255mc\x1b[0m\n' +
+        '\x1b[38;2;0;255;0mxyz\x1b[0m\n'
+      );
+    });
+
+    it('should map colors to the 256-color palette', () => {
+      expect(frameToAnsi(colorFrame(), '256')).toBe(
+        '\x1b[38;5;196mab\x1b[38;5;21mc\x1b[0m\n' +
+        '\x1b[38;5;46mxyz\x1b[0m\n'
+      );
+    });
+
+    it('should map colors to the nearest basic colors', () => {
+      expect(frameToAnsi(colorFrame(), '16')).toBe(
+        '\x1b[91mab\x1b[34mc\x1b[0m\n' +
+        '\x1b[92mxyz\x1b[0m\n'
+      );
+    });
+
+    it('should add background colors', () => {
+      const frame: AsciiFrame = {
+        ...mockFrame(1, 1, colorSettings),
+        chars: [['▀']],
+        colors: new Uint8ClampedArray([255, 255, 255]),
+        backgrounds: new Uint8ClampedArray([0, 0, 0])
+      };
+
+      expect(frameToAnsi(frame, 'truecolor')).toBe('\x1b[38;2;255;255;255;48;2;0;0;0m▀\x1b[0m\n');
+      expect(frameToAnsi(frame, '16')).toBe('\x1b[97;40m▀\x1b[0m\n');
+    });
+
+    it('should fall back to plain text without colors', () => {
+      const frame = mockFrame(3, 2, monoSettings);
+      expect(frameToAnsi(frame)).toBe(frameToText(frame));
+    });
+
+    it('should pick the nearest 256-color cube or gray entry', () => {
+      expect(rgbToAnsi256(0, 0, 0)).toBe(16);
+      expect(rgbToAnsi256(255, 255, 255)).toBe(231);
+      expect(rgbToAnsi256(128, 128, 128)).toBe(244);
+      expect(rgbToAnsi256(95, 135, 175)).toBe(16 + 36 * 1 + 6 * 2 + 3);
+    });
+
+    it('should pick the nearest basic color', () => {
+      expect(rgbToAnsi16(10, 10, 10)).toBe(0);
+      expect(rgbToAnsi16(200, 10, 10)).toBe(1);
+      expect(rgbToAnsi16(250, 250, 250)).toBe(15);
+    });
+
+    it('should map 256-color indices back to the palette they were chosen from', () => {
+      expect(ansi256ToRgb(1)).toEqual([205, 0, 0]);
+      expect(ansi256ToRgb(16 + 36 * 1 + 6 * 2 + 3)).toEqual([95, 135, 175]);
+      expect(ansi256ToRgb(232)).toEqual([8, 8, 8]);
+      expect(ansi256ToRgb(255)).toEqual([238, 238, 238]);
+      expect(rgbToAnsi256(...ansi256ToRgb(244))).toBe(244);
+    });
+  });
+
+  describe('groupColorRuns', () => {
+    it('should merge neighbouring cells of the same color', () => {
+      const frame: AsciiFrame = {
+        ...mockFrame(3, 2, colorSettings),
+        chars: [['a', 'b', '@'], ['x', 'y', 'z']],
+        colors: new Uint8ClampedArray([
+          255, 0, 0, 255, 0, 0, 0, 0, 255,
+          0, 255, 0, 0, 255, 0, 0, 255, 0
+        ])
+      };
+
+      expect(groupColorRuns(frame, 0)).toEqual([
+        { text: 'ab', cells: 2, color: 'rgb(255, 0, 0)' },
+        { text: '@', cells: 1, color: 'rgb(0, 0, 255)' }
+      ]);
+      expect(groupColorRuns(frame, 1)).toEqual([
+        { text: 'xyz', cells: 3, color: 'rgb(0, 255, 0)' }
+      ]);
+    });
+
+    it('should return a single uncolored run without color data', () => {
+      const frame = mockFrame(3, 1, monoSettings);
+      expect(groupColorRuns(frame, 0)).toEqual([{ text: '@@@', cells: 3, color: 'currentColor' }]);
+    });
+  });
+
+  describe('diffFrames', () => {
+    it('should report a full redraw for the first frame', () => {
+      const changes = diffFrames(null, mockFrame(3, 2, monoSettings));
+
+      expect(changes.full).toBe(true);
+      expect(changes.rows).toEqual([0, 1]);
+      expect(changes).toMatchObject({ sequence: 0, since: -1 });
+    });
+
+    it('should report no changes for an identical frame', () => {
+      const previous = { ...mockFrame(3, 2, colorSettings), changes: diffFrames(null, mockFrame(3, 2, colorSettings)) };
+      const changes = diffFrames(previous, mockFrame(3, 2, colorSettings));
+
+      expect(changes).toMatchObject({ sequence: 1, since: 0, full: false, rows: [] });
+      expect(changes.cells.length).toBe(0);
+    });
+
+    it('should list cells whose character or color changed', () => {
+      const previous = mockFrame(3, 3, colorSettings);
+      const next = mockFrame(3, 3, colorSettings);
+      next.chars[0][1] = '.';
+      next.colors![(2 * 3 + 2) * 3] = 0;
+
+      const changes = diffFrames(previous, next);
+
+      expect(changes.full).toBe(false);
+      expect(changes.rows).toEqual([0, 2]);
+      expect(Array.from(changes.cells)).toEqual([1, 8]);
+    });
+
+    it('should require a full redraw when the grid or color layout changes', () => {
+      const previous = mockFrame(3, 2, monoSettings);
+
+      expect(diffFrames(previous, mockFrame(4, 2, monoSettings)).full).toBe(true);
+      expect(diffFrames(previous, mockFrame(3, 2, colorSettings)).full).toBe(true);
+    });
+
+    it('should reuse converter changes only when they follow the drawn frame', () => {
+      const first = { ...mockFrame(3, 1, monoSettings), changes: diffFrames(null, mockFrame(3, 1, monoSettings)) };
+      const second = { ...mockFrame(3, 1, monoSettings), chars: [['@', '.', '@']] };
+      second.changes = diffFrames(first, second);
+      const third = { ...second, changes: diffFrames(second, second) };
+
+      expect(resolveFrameChanges(first, second)).toBe(second.changes);
+      // The second frame was never drawn, so its change must not be lost
+      expect(Array.from(resolveFrameChanges(first, third).cells)).toEqual([1]);
+    });
+  });
+
+  describe('temporal stabilization', () => {
+    const options = { ...DEFAULT_STABILIZATION, smoothing: 0.5, motionThreshold: 40, hysteresis: 8 };
+    const stableSettings: ConversionSettings = { ...monoSettings, stabilization: options };
+
+    it('should pass the first frame through unchanged', () => {
+      const state = createTemporalState();
+      const luminance = Uint8Array.from([10, 200]);
+
+      expect(stabilizeLuminance(luminance, 2, 1, state, options)).toEqual(luminance);
+      expect(Array.from(state.luminance)).toEqual([10, 200]);
+    });
+
+    it('should average out small changes', () => {
+      const state = createTemporalState();
+      stabilizeLuminance(Uint8Array.from([100]), 1, 1, state, options);
+
+      expect(Array.from(stabilizeLuminance(Uint8Array.from([120]), 1, 1, state, options))).toEqual([110]);
+      expect(Array.from(stabilizeLuminance(Uint8Array.from([120]), 1, 1, state, options))).toEqual([115]);
+    });
+
+    it('should jump to the new value on motion', () => {
+      const state = createTemporalState();
+      stabilizeLuminance(Uint8Array.from([100]), 1, 1, state, options);
+
+      expect(Array.from(stabilizeLuminance(Uint8Array.from([200]), 1, 1, state, options))).toEqual([200]);
+    });
+
+    it('should reset when the grid changes', () => {
+      const state = createTemporalState();
+      stabilizeLuminance(Uint8Array.from([100]), 1, 1, state, options);
+
+      expect(Array.from(stabilizeLuminance(Uint8Array.from([120, 0]), 2, 1, state, options))).toEqual([120, 0]);
+    });
+
+    it('should hold a level until luminance leaves its band by the margin', () => {
+      const lut = createBrightnessLUT(CHARSETS.blocks, false);
+      const starts = lutLevelStarts(lut);
+      const state = createTemporalState();
+      const boundary = starts[2];
+
+      expect(Array.from(holdLevels(Uint8Array.from([boundary - 1]), lut, starts, state, 8))).toEqual([1]);
+      expect(Array.from(holdLevels(Uint8Array.from([boundary + 4]), lut, starts, state, 8))).toEqual([1]);
+      expect(Array.from(holdLevels(Uint8Array.from([boundary - 4]), lut, starts, state, 8))).toEqual([1]);
+      expect(Array.from(holdLevels(Uint8Array.from([boundary + 8]), lut, starts, state, 8))).toEqual([2]);
+      expect(Array.from(holdLevels(Uint8Array.from([boundary - 4]), lut, starts, state, 8))).toEqual([2]);
+    });
+
+    it('should stop noise from flipping characters at a ramp boundary', () => {
+      const lut = createBrightnessLUT(CHARSETS.simple, false);
+      const boundary = lutLevelStarts(lut)[5];
+      const temporal = createTemporalState();
+      const shown = new Set<string>();
+      const raw = new Set<string>();
+
+      for (let frame = 0; frame < 20; frame++) {
+        const value = boundary + (frame % 2 === 0 ? -3 : 3);
+        const imageData = createMockImageData(2, 2, [value, value, value, 255]);
+        shown.add(imageDataToAscii(imageData, 1, 1, lut, stableSettings, undefined, temporal).chars[0][0]);
+        raw.add(imageDataToAscii(imageData, 1, 1, lut, monoSettings).chars[0][0]);
+      }
+
+      expect(raw.size).toBe(2);
+      expect(shown.size).toBe(1);
+    });
+
+    it('should follow motion immediately', () => {
+      const lut = createBrightnessLUT(CHARSETS.simple, false);
+      const temporal = createTemporalState();
+      const dark = createMockImageData(2, 2, [0, 0, 0, 255]);
+      const bright = createMockImageData(2, 2, [255, 255, 255, 255]);
+
+      imageDataToAscii(dark, 1, 1, lut, stableSettings, undefined, temporal);
+      const frame = imageDataToAscii(bright, 1, 1, lut, stableSettings, undefined, temporal);
+
+      expect(frame.chars[0][0]).toBe('@');
+      expect(frame.luminance[0]).toBe(255);
+    });
+
+    it('should do nothing when disabled', () => {
+      const lut = createBrightnessLUT(CHARSETS.simple, false);
+      const temporal = createTemporalState();
+      const settings = { ...monoSettings, stabilization: { ...options, enabled: false } };
+
+      imageDataToAscii(createMockImageData(2, 2, [100, 100, 100, 255]), 1, 1, lut, settings, undefined, temporal);
+      const frame = imageDataToAscii(createMockImageData(2, 2, [120, 120, 120, 255]), 1, 1, lut, settings, undefined, temporal);
+
+      expect(frame.luminance[0]).toBe(120);
+      expect(temporal.cols).toBe(0);
+    });
+  });
+
+  describe('fast sampling', () => {
+    // Deterministic 640x480-class fixtures: noise, gradient and fine stripes
+    const createFixture = (width: number, height: number, pattern: 'noise' | 'gradient' | 'stripes'): ImageData => {
+      const data = new Uint8ClampedArray(width * height * 4);
+      let seed = 12345;
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const i = (y * width + x) * 4;
+          for (let channel = 0; channel < 3; channel++) {
+            if (pattern === 'noise') {
+              seed = (seed * 1103515245 + 12345) >>> 0;
+              data[i + channel] = seed >>> 24;
+            } else if (pattern === 'gradient') {
+              data[i + channel] = Math.round(((x + y * (channel + 1)) * 255) / (width + height * 3));
+            } else {
+              data[i + channel] = (x + channel) % 3 === 0 ? 255 : 0;
+            }
+          }
+          data[i + 3] = 255;
+        }
+      }
+      return { data, width, height, colorSpace: 'srgb' } as ImageData;
+    };
+
+    // Per-pixel box averaging the integral image replaces
+    const naiveCellAverages = (imageData: ImageData, cols: number, rows: number, clampEmpty: boolean) => {
+      const { data, width, height } = imageData;
+      const result = new Float32Array(cols * rows * 3);
+      for (let row = 0; row < rows; row++) {
+        const startY = Math.floor(row * height / rows);
+        let endY = Math.floor((row + 1) * height / rows);
+        if (clampEmpty) endY = Math.min(height, Math.max(startY + 1, endY));
+        for (let col = 0; col < cols; col++) {
+          const startX = Math.floor(col * width / cols);
+          let endX = Math.floor((col + 1) * width / cols);
+          if (clampEmpty) endX = Math.min(width, Math.max(startX + 1, endX));
+          const totals = [0, 0, 0];
+          let count = 0;
+          for (let y = startY; y < endY; y++) {
+            for (let x = startX; x < endX; x++) {
+              for (let channel = 0; channel < 3; channel++) {
+                totals[channel] += data[(y * width + x) * 4 + channel];
+              }
+              count++;
+            }
+          }
+          for (let channel = 0; channel < 3; channel++) {
+            result[(row * cols + col) * 3 + channel] = count > 0 ? totals[channel] / count : 0;
+          }
+        }
+      }
+      return result;
+    };
+
+    const fixtures = [
+      { width: 640, height: 480, cols: 80, rows: 30 },
+      { width: 641, height: 479, cols: 97, rows: 29 },
+      { width: 320, height: 240, cols: 160, rows: 40 }
+    ];
+
+    it.each(['noise', 'gradient', 'stripes'] as const)('should match per-pixel averaging on %s fixtures', pattern => {
+      const lut = createBrightnessLUT(CHARSETS.detailed, false);
+
+      for (const { width, height, cols, rows } of fixtures) {
+        const imageData = createFixture(width, height, pattern);
+        const expected = naiveCellAverages(imageData, cols, rows, false);
+        const frame = imageDataToAscii(imageData, cols, rows, lut, colorSettings);
+
+        const luminance = Array.from({ length: cols * rows }, (_, cell) =>
+          Math.round(calculateLuminance(expected[cell * 3], expected[cell * 3 + 1], expected[cell * 3 + 2]))
+        );
+
+        expect(Array.from(frame.luminance)).toEqual(luminance);
+        expect(frame.chars.flat()).toEqual(luminance.map(value => lut[value]));
+        expect(Array.from(frame.colors!)).toEqual(Array.from(expected, Math.round));
+      }
+    });
+
+    it('should match per-pixel averaging for sub-cell grids', () => {
+      const imageData = createFixture(641, 479, 'noise');
+      const integral = computeIntegralImage(imageData);
+
+      // Braille (2x4), half-block (1x2) and glyph (4x6) sub-cell grids
+      for (const [gridWidth, gridHeight] of [[160, 120], [97, 58], [388, 174]]) {
+        expect(sampleGrid(integral, gridWidth, gridHeight)).toEqual(
+          naiveCellAverages(imageData, gridWidth, gridHeight, true)
+        );
+      }
+    });
+
+    it('should keep cells narrower than a pixel empty', () => {
+      const imageData = createFixture(4, 4, 'gradient');
+      const frame = imageDataToAscii(imageData, 8, 2, createBrightnessLUT(CHARSETS.simple), colorSettings);
+      const expected = naiveCellAverages(imageData, 8, 2, false);
+
+      expect(Array.from(frame.colors!)).toEqual(Array.from(expected, Math.round));
+    });
+
+    it('should scale readback down to 4x8 pixels per cell', () => {
+      // A quarter of the pixels for the default 80 column grid
+      expect(calculateReadbackSize(640, 480, 80, 30)).toEqual({ width: 320, height: 240 });
+      expect(calculateReadbackSize(1920, 1080, 120, 33)).toEqual({ width: 480, height: 264 });
+    });
+
+    it('should never scale readback up', () => {
+      expect(calculateReadbackSize(320, 240, 160, 60)).toEqual({ width: 320, height: 240 });
+      expect(calculateReadbackSize(100, 50, 40, 10)).toEqual({ width: 100, height: 50 });
     });
   });
 
@@ -265,6 +1027,8 @@ describe('ASCII Library', () => {
       expect(CHARSETS.simple).toBeDefined();
       expect(CHARSETS.detailed).toBeDefined();
       expect(CHARSETS.blocks).toBeDefined();
+      expect(CHARSETS.braille).toBeDefined();
+      expect(CHARSETS.halfblock).toBeDefined();
     });
 
     it('should have proper length for each charset', () => {
@@ -2,22 +2,109 @@
  * ASCII conversion library for webcam mirror
  */
 
-import type { CharsetName } from '../types/ascii';
+import type {
+  AnsiColorDepth,
+  AsciiFrame,
+  BuiltinCharsetName,
+  CharsetName,
+  ColorRun,
+  ConversionSettings,
+  DitherAlgorithm,
+  FrameChanges,
+  ImageAdjustments,
+  SourceFrame,
+  TemporalStabilization
+} from '../types/ascii';
+import { GLYPH_FONT, createCanvas, matchGlyph, renderGlyphSet, splitGlyphs } from './glyphs';
+import type { GlyphSet } from './glyphs';
 
 /**
  * Available character sets for ASCII conversion
  */
-export const CHARSETS: Record<CharsetName, string> = {
+export const CHARSETS: Record<BuiltinCharsetName, string> = {
   simple: " .:-=+*#%@",
   detailed: " .'^\",:;Il!i><~+_-?][}{1)(|\\/*tfjrxnuvczXYUJCLQ0OZmwqpdbkhao*#MW&8%B@$",
-  blocks: " ░▒▓█"
+  blocks: " ░▒▓█",
+  // Sub-pixel charsets: their glyphs are composed from samples, not looked up by brightness
+  braille: "⠀⠁⠃⠇⡇⡏⡟⡿⣿",
+  halfblock: " ▀▄█"
 };
 
+/**
+ * Samples per cell for charsets that draw several pixels per character
+ */
+export const CELL_SAMPLES: Partial<Record<CharsetName, { x: number; y: number }>> = {
+  braille: { x: 2, y: 4 },
+  halfblock: { x: 1, y: 2 }
+};
+
+/**
+ * Braille dot bits indexed as [dotRow][dotCol] (Unicode dots 1-8)
+ */
+const BRAILLE_DOT_BITS: readonly (readonly number[])[] = [
+  [0x01, 0x08],
+  [0x02, 0x10],
+  [0x04, 0x20],
+  [0x40, 0x80]
+];
+
+/**
+ * Half-block glyphs indexed by (top on) | (bottom on) << 1
+ */
+const HALF_BLOCKS = [' ', '▀', '▄', '█'] as const;
+
 /**
  * Character aspect ratio constant - monospace chars are ~2x taller than wide
  */
 export const CHAR_Y_PER_X = 2;
 
+/**
+ * Directional glyphs used by the edge mode
+ */
+export const EDGE_CHARS = {
+  vertical: '|',
+  horizontal: '-',
+  horizontalLow: '_',
+  rising: '/',
+  falling: '\\'
+} as const;
+
+/**
+ * Mean Sobel magnitude a cell needs before it is drawn as an edge
+ */
+export const EDGE_THRESHOLD = 48;
+
+/**
+ * Minimum orientation coherence (0-1) for a cell to count as an edge,
+ * so noisy texture without a dominant direction keeps its ramp character
+ */
+const EDGE_COHERENCE = 0.4;
+
+/**
+ * Adjustments that leave the image unchanged
+ */
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+  brightness: 0,
+  contrast: 0,
+  gamma: 1,
+  autoLevels: 'off'
+};
+
+/**
+ * Stabilization tuned for webcam sensor noise
+ */
+export const DEFAULT_STABILIZATION: TemporalStabilization = {
+  enabled: true,
+  smoothing: 0.6,
+  motionThreshold: 32,
+  hysteresis: 6
+};
+
+/**
+ * Share of pixels clipped at each end by the 'stretch' auto-levels mode
+ */
+const STRETCH_CLIP = 0.01;
+
 /**
  * Luminance calculation weights (ITU-R BT.709)
  */
@@ -53,8 +140,9 @@ export function createBrightnessLUT(charset: string, invert: boolean = false): s
     throw new Error('Charset cannot be empty');
   }
 
+  const chars = splitGlyphs(charset);
   const lut: string[] = new Array(256);
-  const charCount = charset.length;
+  const charCount = chars.length;
 
   for (let brightness = 0; brightness < 256; brightness++) {
     let charIndex = Math.floor((brightness / 255) * (charCount - 1));
@@ -63,113 +151,1290 @@ export function createBrightnessLUT(charset: string, invert: boolean = false): s
       charIndex = charCount - 1 - charIndex;
     }
 
-    lut[brightness] = charset[charIndex];
+    lut[brightness] = chars[charIndex];
   }
 
   return lut;
 }
 
 /**
- * Calculate grid dimensions based on video dimensions and column count
+ * Get how many samples a cell covers horizontally and vertically
+ * @param charset Character set name
+ * @returns Samples per cell (1x1 for brightness-ramp charsets)
+ */
+export function cellSamples(charset?: CharsetName): { x: number; y: number } {
+  return (charset && CELL_SAMPLES[charset]) || { x: 1, y: 1 };
+}
+
+/**
+ * Calculate grid dimensions based on video dimensions and column count.
+ * Rows are chosen so every sample keeps the source pixel aspect: a cell is
+ * CHAR_Y_PER_X times taller than wide, so a text cell covers one tall sample
+ * while a braille cell covers a 2x4 block of square dots.
  * @param videoWidth Video width in pixels
  * @param videoHeight Video height in pixels
  * @param cols Number of columns
+ * @param charset Character set name, for sub-pixel charsets
  * @returns Object with cols and rows
  */
 export function calculateGridDimensions(
   videoWidth: number, 
   videoHeight: number, 
-  cols: number
+  cols: number,
+  charset?: CharsetName
 ): { cols: number; rows: number } {
-  const rows = Math.floor(videoHeight / (videoWidth / cols * CHAR_Y_PER_X));
+  const samples = cellSamples(charset);
+  const sampleWidth = videoWidth / (cols * samples.x);
+  const sampleAspect = CHAR_Y_PER_X * samples.x / samples.y;
+  const rows = Math.floor(videoHeight / (sampleWidth * sampleAspect * samples.y));
   return { cols, rows };
 }
 
 /**
- * Convert ImageData to ASCII string
+ * Source pixels kept per cell when frames are scaled down before readback:
+ * enough for 2x4 braille dots, sub-cell glyph matching and square-pixel
+ * Sobel gradients on 1:2 cells
+ */
+export const READBACK_CELL_PIXELS = { x: 4, y: 8 } as const;
+
+/**
+ * Size to draw a frame at before reading its pixels back, so readback and
+ * sampling cost scale with the output grid rather than the source resolution
+ * @param width Source width
+ * @param height Source height
+ * @param cols Number of columns
+ * @param rows Number of rows
+ * @returns Readback size, never larger than the source
+ */
+export function calculateReadbackSize(
+  width: number,
+  height: number,
+  cols: number,
+  rows: number
+): { width: number; height: number } {
+  const targetWidth = cols * READBACK_CELL_PIXELS.x;
+  const targetHeight = rows * READBACK_CELL_PIXELS.y;
+
+  if (targetWidth >= width || targetHeight >= height) {
+    return { width, height };
+  }
+  return { width: targetWidth, height: targetHeight };
+}
+
+/**
+ * Per-cell gradient statistics used by the edge mode
+ */
+export interface CellGradients {
+  /** Mean Sobel gradient magnitude */
+  magnitude: Float32Array;
+  /** Dominant gradient orientation in radians (-PI/2..PI/2, y axis down) */
+  orientation: Float32Array;
+  /** How strongly gradients agree on that orientation (0-1) */
+  coherence: Float32Array;
+  /** Magnitude-weighted vertical position of the edge inside the cell (0 top, 1 bottom) */
+  centroidY: Float32Array;
+}
+
+/**
+ * Compute Sobel gradients over the image and aggregate them per cell.
+ * Orientation comes from the cell's structure tensor, so the opposite
+ * gradients on both sides of a thin line reinforce instead of cancelling.
  * @param imageData Canvas ImageData
  * @param cols Number of columns
  * @param rows Number of rows
+ * @returns Gradient statistics, one entry per cell
+ */
+export function computeCellGradients(
+  imageData: ImageData,
+  cols: number,
+  rows: number
+): CellGradients {
+  const { data, width, height } = imageData;
+  const cellCount = cols * rows;
+  const cellWidth = width / cols;
+  const cellHeight = height / rows;
+
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    const index = i * 4;
+    luma[i] = data[index] * LUMINANCE_WEIGHTS.R +
+      data[index + 1] * LUMINANCE_WEIGHTS.G +
+      data[index + 2] * LUMINANCE_WEIGHTS.B;
+  }
+
+  const sumXX = new Float64Array(cellCount);
+  const sumYY = new Float64Array(cellCount);
+  const sumXY = new Float64Array(cellCount);
+  const sumMag = new Float64Array(cellCount);
+  const sumMagY = new Float64Array(cellCount);
+  const pixelCount = new Uint32Array(cellCount);
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(rows - 1, Math.floor(y / cellHeight));
+    const relY = (y - row * cellHeight + 0.5) / cellHeight;
+
+    for (let x = 0; x < width; x++) {
+      const col = Math.min(cols - 1, Math.floor(x / cellWidth));
+      const cell = row * cols + col;
+      pixelCount[cell]++;
+
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) {
+        continue;
+      }
+
+      const i = y * width + x;
+      const tl = luma[i - width - 1], t = luma[i - width], tr = luma[i - width + 1];
+      const l = luma[i - 1], r = luma[i + 1];
+      const bl = luma[i + width - 1], b = luma[i + width], br = luma[i + width + 1];
+
+      const gx = (tr + 2 * r + br) - (tl + 2 * l + bl);
+      const gy = (bl + 2 * b + br) - (tl + 2 * t + tr);
+      const mag = Math.sqrt(gx * gx + gy * gy);
+
+      sumXX[cell] += gx * gx;
+      sumYY[cell] += gy * gy;
+      sumXY[cell] += gx * gy;
+      sumMag[cell] += mag;
+      sumMagY[cell] += mag * relY;
+    }
+  }
+
+  const magnitude = new Float32Array(cellCount);
+  const orientation = new Float32Array(cellCount);
+  const coherence = new Float32Array(cellCount);
+  const centroidY = new Float32Array(cellCount);
+
+  for (let cell = 0; cell < cellCount; cell++) {
+    if (pixelCount[cell] === 0 || sumMag[cell] === 0) {
+      centroidY[cell] = 0.5;
+      continue;
+    }
+
+    const diff = sumXX[cell] - sumYY[cell];
+    const trace = sumXX[cell] + sumYY[cell];
+    magnitude[cell] = sumMag[cell] / pixelCount[cell];
+    orientation[cell] = 0.5 * Math.atan2(2 * sumXY[cell], diff);
+    coherence[cell] = Math.sqrt(diff * diff + 4 * sumXY[cell] * sumXY[cell]) / trace;
+    centroidY[cell] = sumMagY[cell] / sumMag[cell];
+  }
+
+  return { magnitude, orientation, coherence, centroidY };
+}
+
+/**
+ * Pick the directional glyph for an edge
+ * @param orientation Gradient orientation in radians (-PI/2..PI/2, y axis down)
+ * @param centroidY Vertical position of the edge inside the cell (0 top, 1 bottom)
+ * @returns Edge character
+ */
+export function edgeCharacter(orientation: number, centroidY: number = 0.5): string {
+  const eighth = Math.PI / 8;
+  const abs = Math.abs(orientation);
+
+  // The edge runs perpendicular to the gradient
+  if (abs < eighth) {
+    return EDGE_CHARS.vertical;
+  }
+  if (abs > 3 * eighth) {
+    return centroidY > 0.66 ? EDGE_CHARS.horizontalLow : EDGE_CHARS.horizontal;
+  }
+  // Gradient pointing down-right means the edge rises to the right on screen
+  return orientation > 0 ? EDGE_CHARS.rising : EDGE_CHARS.falling;
+}
+
+/**
+ * Count how many cells have each luminance value
+ * @param luminance Per-cell luminance (0-255)
+ * @returns 256-bin histogram
+ */
+export function computeHistogram(luminance: Uint8Array): Uint32Array {
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < luminance.length; i++) {
+    histogram[luminance[i]]++;
+  }
+  return histogram;
+}
+
+/**
+ * Build a 256-entry tone curve: auto-levels, then brightness and contrast, then gamma
+ * @param adjustments Tone adjustments
+ * @param histogram Luminance histogram, required for auto-levels
+ * @returns Mapping from input to output luminance
+ */
+export function createToneCurve(adjustments: ImageAdjustments, histogram?: Uint32Array): Uint8Array {
+  const curve = new Uint8Array(256);
+  const levels = new Float32Array(256);
+  for (let value = 0; value < 256; value++) {
+    levels[value] = value;
+  }
+
+  if (histogram && adjustments.autoLevels !== 'off') {
+    const total = histogram.reduce((sum, count) => sum + count, 0);
+
+    if (total > 0 && adjustments.autoLevels === 'stretch') {
+      let low = 0;
+      let high = 255;
+      let seen = 0;
+      while (low < 255 && seen + histogram[low] <= total * STRETCH_CLIP) {
+        seen += histogram[low++];
+      }
+      seen = 0;
+      while (high > 0 && seen + histogram[high] <= total * STRETCH_CLIP) {
+        seen += histogram[high--];
+      }
+      if (high > low) {
+        for (let value = 0; value < 256; value++) {
+          levels[value] = (value - low) * 255 / (high - low);
+        }
+      }
+    } else if (total > 0 && adjustments.autoLevels === 'equalize') {
+      let cdf = 0;
+      let cdfMin = 0;
+      for (let value = 0; value < 256; value++) {
+        cdf += histogram[value];
+        if (cdfMin === 0) {
+          cdfMin = cdf;
+        }
+        levels[value] = total > cdfMin ? (cdf - cdfMin) * 255 / (total - cdfMin) : value;
+      }
+    }
+  }
+
+  const offset = adjustments.brightness * 2.55;
+  const c = adjustments.contrast * 2.55;
+  const contrastFactor = (259 * (c + 255)) / (255 * (259 - c));
+  const inverseGamma = 1 / Math.max(adjustments.gamma, 0.01);
+
+  for (let value = 0; value < 256; value++) {
+    let v = contrastFactor * (levels[value] + offset - 128) + 128;
+    v = Math.min(255, Math.max(0, v));
+    v = 255 * Math.pow(v / 255, inverseGamma);
+    curve[value] = Math.round(v);
+  }
+
+  return curve;
+}
+
+/**
+ * Apply tone adjustments to per-cell luminance
+ * @param luminance Per-cell luminance (0-255)
+ * @param adjustments Tone adjustments
+ * @returns Adjusted luminance
+ */
+export function adjustLuminance(luminance: Uint8Array, adjustments: ImageAdjustments): Uint8Array {
+  const histogram = adjustments.autoLevels !== 'off' ? computeHistogram(luminance) : undefined;
+  const curve = createToneCurve(adjustments, histogram);
+  const adjusted = new Uint8Array(luminance.length);
+  for (let i = 0; i < luminance.length; i++) {
+    adjusted[i] = curve[luminance[i]];
+  }
+  return adjusted;
+}
+
+/**
+ * Summed-area table of an image: the RGB sums of every rectangle anchored at
+ * the top-left corner, so any box average costs four lookups per channel
+ */
+export interface IntegralImage {
+  width: number;
+  height: number;
+  /** RGB sums, (width + 1) * (height + 1) triplets with a zero first row and column */
+  sums: Uint32Array | Float64Array;
+}
+
+/**
+ * Largest pixel count whose channel sums still fit in 32 bits
+ */
+const MAX_UINT32_PIXELS = Math.floor(0xffffffff / 255);
+
+/**
+ * Build the summed-area table of an image in one pass
+ * @param imageData Canvas ImageData
+ * @returns Integral image
+ */
+export function computeIntegralImage(imageData: ImageData): IntegralImage {
+  const { data, width, height } = imageData;
+  const stride = (width + 1) * 3;
+  const size = stride * (height + 1);
+  const sums = width * height > MAX_UINT32_PIXELS ? new Float64Array(size) : new Uint32Array(size);
+
+  for (let y = 0; y < height; y++) {
+    const above = y * stride;
+    const current = above + stride;
+    let r = 0, g = 0, b = 0;
+
+    for (let x = 0; x < width; x++) {
+      const index = (y * width + x) * 4;
+      const offset = (x + 1) * 3;
+      r += data[index];
+      g += data[index + 1];
+      b += data[index + 2];
+      sums[current + offset] = sums[above + offset] + r;
+      sums[current + offset + 1] = sums[above + offset + 1] + g;
+      sums[current + offset + 2] = sums[above + offset + 2] + b;
+    }
+  }
+
+  return { width, height, sums };
+}
+
+/**
+ * Sum one channel over the pixels [x0, x1) x [y0, y1)
+ */
+function boxSum(integral: IntegralImage, x0: number, y0: number, x1: number, y1: number, channel: number): number {
+  const { sums } = integral;
+  const stride = (integral.width + 1) * 3;
+  return sums[y1 * stride + x1 * 3 + channel] -
+    sums[y0 * stride + x1 * 3 + channel] -
+    sums[y1 * stride + x0 * 3 + channel] +
+    sums[y0 * stride + x0 * 3 + channel];
+}
+
+/**
+ * Get the integral image of a sampling source, building it if needed
+ */
+function toIntegral(source: ImageData | IntegralImage): IntegralImage {
+  return 'sums' in source ? source : computeIntegralImage(source);
+}
+
+/**
+ * Average color on a uniform grid of samples covering the image
+ * @param source Canvas ImageData or its integral image
+ * @param gridWidth Samples horizontally
+ * @param gridHeight Samples vertically
+ * @returns RGB triplets (0-255, unrounded) per sample, row-major
+ */
+export function sampleGrid(
+  source: ImageData | IntegralImage,
+  gridWidth: number,
+  gridHeight: number
+): Float32Array {
+  const integral = toIntegral(source);
+  const { width, height } = integral;
+  const sampleWidth = width / gridWidth;
+  const sampleHeight = height / gridHeight;
+  const result = new Float32Array(gridWidth * gridHeight * 3);
+
+  for (let sy = 0; sy < gridHeight; sy++) {
+    const startY = Math.floor(sy * sampleHeight);
+    const endY = Math.min(height, Math.max(startY + 1, Math.floor((sy + 1) * sampleHeight)));
+
+    for (let sx = 0; sx < gridWidth; sx++) {
+      const startX = Math.floor(sx * sampleWidth);
+      const endX = Math.min(width, Math.max(startX + 1, Math.floor((sx + 1) * sampleWidth)));
+      const pixelCount = (endX - startX) * (endY - startY);
+
+      if (pixelCount > 0) {
+        const offset = (sy * gridWidth + sx) * 3;
+        for (let channel = 0; channel < 3; channel++) {
+          result[offset + channel] = boxSum(integral, startX, startY, endX, endY, channel) / pixelCount;
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Luminance of every sample of an RGB grid
+ * @param rgb RGB triplets per sample
+ * @returns Luminance (0-255, unrounded) per sample
+ */
+function gridLuminance(rgb: Float32Array): Float32Array {
+  const luma = new Float32Array(rgb.length / 3);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = rgb[i * 3] * LUMINANCE_WEIGHTS.R +
+      rgb[i * 3 + 1] * LUMINANCE_WEIGHTS.G +
+      rgb[i * 3 + 2] * LUMINANCE_WEIGHTS.B;
+  }
+  return luma;
+}
+
+/**
+ * Average luminance on a grid of sub-cells inside every cell
+ * @param source Canvas ImageData or its integral image
+ * @param cols Number of columns
+ * @param rows Number of rows
+ * @param gridCols Sub-cell columns per cell
+ * @param gridRows Sub-cell rows per cell
+ * @returns Luminance (0-255) per sub-cell, cell-major then row-major inside the cell
+ */
+export function sampleSubCells(
+  source: ImageData | IntegralImage,
+  cols: number,
+  rows: number,
+  gridCols: number,
+  gridRows: number
+): Float32Array {
+  const subCols = cols * gridCols;
+  const luma = gridLuminance(sampleGrid(source, subCols, rows * gridRows));
+  const size = gridCols * gridRows;
+  const result = new Float32Array(luma.length);
+
+  for (let i = 0; i < luma.length; i++) {
+    const sx = i % subCols;
+    const sy = Math.floor(i / subCols);
+    const cell = Math.floor(sy / gridRows) * cols + Math.floor(sx / gridCols);
+    const sub = (sy % gridRows) * gridCols + (sx % gridCols);
+    result[cell * size + sub] = luma[i];
+  }
+
+  return result;
+}
+
+/**
+ * Decide which samples of a luminance grid are lit, by thresholding at
+ * mid gray or by two-level dithering
+ * @param luma Luminance (0-255) per sample, row-major
+ * @param width Samples horizontally
+ * @param height Samples vertically
+ * @param settings Conversion settings (invert, dither)
+ * @param toneCurve Optional tone curve applied first
+ * @returns 1 for lit samples, 0 otherwise
+ */
+function binarizeGrid(
+  luma: Float32Array,
+  width: number,
+  height: number,
+  settings: ConversionSettings,
+  toneCurve?: Uint8Array | null
+): Uint8Array {
+  const values = new Uint8Array(luma.length);
+  for (let i = 0; i < luma.length; i++) {
+    const value = Math.round(luma[i]);
+    values[i] = toneCurve ? toneCurve[value] : value;
+  }
+
+  const lit = settings.dither && settings.dither !== 'none'
+    ? Uint8Array.from(ditherLuminance(values, width, height, 2, settings.dither))
+    : values.map(value => (value >= 128 ? 1 : 0));
+
+  return settings.invert ? lit.map(value => 1 - value) : lit;
+}
+
+/**
+ * Compose a braille pattern character from dot bits
+ * @param bits Dot bits (dot 1 = 0x01 ... dot 8 = 0x80)
+ * @returns Braille character
+ */
+export function brailleCharacter(bits: number): string {
+  return String.fromCharCode(0x2800 + bits);
+}
+
+/**
+ * Draw every cell as a braille pattern with 2x4 dots
+ * @param source Canvas ImageData or its integral image
+ * @param cols Number of columns
+ * @param rows Number of rows
+ * @param settings Conversion settings (invert, dither)
+ * @param toneCurve Optional tone curve
+ * @returns Character per cell, row-major
+ */
+export function brailleCells(
+  source: ImageData | IntegralImage,
+  cols: number,
+  rows: number,
+  settings: ConversionSettings,
+  toneCurve?: Uint8Array | null
+): string[] {
+  const width = cols * 2;
+  const height = rows * 4;
+  const dots = binarizeGrid(gridLuminance(sampleGrid(source, width, height)), width, height, settings, toneCurve);
+  const result: string[] = new Array(cols * rows);
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      let bits = 0;
+      for (let dy = 0; dy < 4; dy++) {
+        for (let dx = 0; dx < 2; dx++) {
+          if (dots[(row * 4 + dy) * width + col * 2 + dx]) {
+            bits |= BRAILLE_DOT_BITS[dy][dx];
+          }
+        }
+      }
+      result[row * cols + col] = brailleCharacter(bits);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Draw every cell as two vertically stacked pixels with half-block glyphs.
+ * In color mode each cell becomes '▀' with the top pixel as foreground and
+ * the bottom pixel as background; otherwise pixels are thresholded.
+ * @param source Canvas ImageData or its integral image
+ * @param cols Number of columns
+ * @param rows Number of rows
+ * @param settings Conversion settings (invert, dither, color mode)
+ * @param toneCurve Optional tone curve
+ * @returns Character per cell plus foreground/background colors in color mode
+ */
+export function halfBlockCells(
+  source: ImageData | IntegralImage,
+  cols: number,
+  rows: number,
+  settings: ConversionSettings,
+  toneCurve?: Uint8Array | null
+): { chars: string[]; colors?: Uint8ClampedArray; backgrounds?: Uint8ClampedArray } {
+  const rgb = sampleGrid(source, cols, rows * 2);
+  const cellCount = cols * rows;
+
+  if (settings.colorMode) {
+    const colors = new Uint8ClampedArray(cellCount * 3);
+    const backgrounds = new Uint8ClampedArray(cellCount * 3);
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const cell = row * cols + col;
+        const top = (row * 2 * cols + col) * 3;
+        const bottom = ((row * 2 + 1) * cols + col) * 3;
+        for (let channel = 0; channel < 3; channel++) {
+          colors[cell * 3 + channel] = Math.round(rgb[top + channel]);
+          backgrounds[cell * 3 + channel] = Math.round(rgb[bottom + channel]);
+        }
+      }
+    }
+    return { chars: new Array(cellCount).fill(HALF_BLOCKS[1]), colors, backgrounds };
+  }
+
+  const lit = binarizeGrid(gridLuminance(rgb), cols, rows * 2, settings, toneCurve);
+  const chars: string[] = new Array(cellCount);
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const top = lit[row * 2 * cols + col];
+      const bottom = lit[(row * 2 + 1) * cols + col];
+      chars[row * cols + col] = HALF_BLOCKS[top | (bottom << 1)];
+    }
+  }
+  return { chars };
+}
+
+/**
+ * Choose characters by matching sub-cell luminance against glyph shapes
+ * @param source Canvas ImageData or its integral image
+ * @param cols Number of columns
+ * @param rows Number of rows
+ * @param glyphSet Rasterized glyphs
+ * @param invert Whether dark areas should get dense glyphs
+ * @param toneCurve Optional tone curve applied to sub-cell luminance
+ * @returns Character per cell, row-major
+ */
+export function matchGlyphCells(
+  source: ImageData | IntegralImage,
+  cols: number,
+  rows: number,
+  glyphSet: GlyphSet,
+  invert: boolean,
+  toneCurve?: Uint8Array | null
+): string[] {
+  const size = glyphSet.gridCols * glyphSet.gridRows;
+  const samples = sampleSubCells(source, cols, rows, glyphSet.gridCols, glyphSet.gridRows);
+
+  for (let i = 0; i < samples.length; i++) {
+    const value = toneCurve ? toneCurve[Math.round(samples[i])] : samples[i];
+    samples[i] = invert ? 1 - value / 255 : value / 255;
+  }
+
+  const result: string[] = new Array(cols * rows);
+  for (let cell = 0; cell < cols * rows; cell++) {
+    result[cell] = glyphSet.chars[matchGlyph(glyphSet, samples, cell * size)];
+  }
+  return result;
+}
+
+/**
+ * 4x4 ordered dithering threshold matrix (values 0-15)
+ */
+export const BAYER_4X4: readonly (readonly number[])[] = [
+  [0, 8, 2, 10],
+  [12, 4, 14, 6],
+  [3, 11, 1, 9],
+  [15, 7, 13, 5]
+];
+
+/**
+ * Error diffusion kernels as [dx, dy, weight] taps
+ */
+const DIFFUSION_KERNELS: Record<'floyd-steinberg' | 'atkinson', readonly [number, number, number][]> = {
+  'floyd-steinberg': [
+    [1, 0, 7 / 16],
+    [-1, 1, 3 / 16],
+    [0, 1, 5 / 16],
+    [1, 1, 1 / 16]
+  ],
+  // Atkinson only spreads 6/8 of the error, which keeps highlights crisp
+  atkinson: [
+    [1, 0, 1 / 8],
+    [2, 0, 1 / 8],
+    [-1, 1, 1 / 8],
+    [0, 1, 1 / 8],
+    [1, 1, 1 / 8],
+    [0, 2, 1 / 8]
+  ]
+};
+
+/**
+ * Find the brightness at which each distinct character of a LUT starts
  * @param lut Brightness lookup table
- * @param colorMode Whether to include color information
- * @returns ASCII string with optional color data
+ * @returns Start brightness per quantization level, darkest level first
+ */
+export function lutLevelStarts(lut: string[]): number[] {
+  const starts = [0];
+  for (let brightness = 1; brightness < lut.length; brightness++) {
+    if (lut[brightness] !== lut[brightness - 1]) {
+      starts.push(brightness);
+    }
+  }
+  return starts;
+}
+
+/**
+ * Quantize per-cell luminance to a fixed number of levels with dithering
+ * @param luminance Per-cell luminance (0-255), row-major
+ * @param cols Number of columns
+ * @param rows Number of rows
+ * @param levels Number of quantization levels (charset length)
+ * @param algorithm Dithering algorithm
+ * @returns Level index per cell (0 = darkest)
+ */
+export function ditherLuminance(
+  luminance: Uint8Array,
+  cols: number,
+  rows: number,
+  levels: number,
+  algorithm: Exclude<DitherAlgorithm, 'none'>
+): Uint16Array {
+  const result = new Uint16Array(cols * rows);
+  if (levels < 2) {
+    return result;
+  }
+
+  const step = 255 / (levels - 1);
+  const quantize = (value: number) => Math.min(levels - 1, Math.max(0, Math.round(value / step)));
+
+  if (algorithm === 'bayer') {
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const cell = row * cols + col;
+        const threshold = (BAYER_4X4[row % 4][col % 4] + 0.5) / 16 - 0.5;
+        result[cell] = quantize(luminance[cell] + threshold * step);
+      }
+    }
+    return result;
+  }
+
+  const kernel = DIFFUSION_KERNELS[algorithm];
+  const values = Float32Array.from(luminance);
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const cell = row * cols + col;
+      const level = quantize(values[cell]);
+      const error = values[cell] - level * step;
+      result[cell] = level;
+
+      for (const [dx, dy, weight] of kernel) {
+        const x = col + dx;
+        const y = row + dy;
+        if (x >= 0 && x < cols && y < rows) {
+          values[y * cols + x] += error * weight;
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Per-cell history carried from frame to frame for temporal stabilization
+ */
+export interface TemporalState {
+  cols: number;
+  rows: number;
+  /** LUT the stored levels refer to */
+  lutKey: string;
+  /** Smoothed luminance per cell */
+  luminance: Float32Array;
+  /** Character level shown per cell, -1 when unknown */
+  levels: Int16Array;
+}
+
+/**
+ * Create empty temporal history; the first frame passes through unchanged
+ * @returns Temporal state
+ */
+export function createTemporalState(): TemporalState {
+  return { cols: 0, rows: 0, lutKey: '', luminance: new Float32Array(0), levels: new Int16Array(0) };
+}
+
+/**
+ * Smooth luminance with an exponential moving average per cell. Cells that
+ * change by more than the motion threshold jump to the new value, so noise
+ * is averaged out while movement shows up in the same frame.
+ * @param luminance Luminance per cell
+ * @param cols Number of columns
+ * @param rows Number of rows
+ * @param state Temporal state, updated in place
+ * @param options Stabilization options
+ * @returns Smoothed luminance per cell
+ */
+export function stabilizeLuminance(
+  luminance: Uint8Array,
+  cols: number,
+  rows: number,
+  state: TemporalState,
+  options: TemporalStabilization
+): Uint8Array {
+  if (state.cols !== cols || state.rows !== rows) {
+    state.cols = cols;
+    state.rows = rows;
+    state.luminance = Float32Array.from(luminance);
+    state.levels = new Int16Array(cols * rows).fill(-1);
+    return luminance;
+  }
+
+  const keep = Math.min(0.95, Math.max(0, options.smoothing));
+  const result = new Uint8Array(luminance.length);
+
+  for (let i = 0; i < luminance.length; i++) {
+    const previous = state.luminance[i];
+    const current = luminance[i];
+    const next = Math.abs(current - previous) > options.motionThreshold
+      ? current
+      : previous + (current - previous) * (1 - keep);
+    state.luminance[i] = next;
+    result[i] = Math.round(next);
+  }
+
+  return result;
+}
+
+/**
+ * Pick the LUT level of every cell, keeping the previous level until the
+ * luminance leaves that level's band by more than the hysteresis margin
+ * @param luminance Luminance per cell
+ * @param lut Brightness lookup table
+ * @param levelStarts First luminance of every level, from lutLevelStarts
+ * @param state Temporal state, updated in place
+ * @param margin Hysteresis margin (0-255)
+ * @returns Level index per cell
+ */
+export function holdLevels(
+  luminance: Uint8Array,
+  lut: string[],
+  levelStarts: number[],
+  state: TemporalState,
+  margin: number
+): Uint16Array {
+  const lutKey = lut.join('');
+  if (state.lutKey !== lutKey || state.levels.length !== luminance.length) {
+    state.lutKey = lutKey;
+    state.levels = new Int16Array(luminance.length).fill(-1);
+  }
+
+  // Level of every luminance value without hysteresis
+  const levelOf = new Uint16Array(256);
+  for (let level = 0, value = 0; value < 256; value++) {
+    while (level + 1 < levelStarts.length && levelStarts[level + 1] <= value) level++;
+    levelOf[value] = level;
+  }
+
+  const levels = new Uint16Array(luminance.length);
+  for (let i = 0; i < luminance.length; i++) {
+    const value = luminance[i];
+    const previous = state.levels[i];
+    let level = levelOf[value];
+
+    if (previous >= 0 && previous < levelStarts.length && previous !== level) {
+      const start = levelStarts[previous];
+      const end = previous + 1 < levelStarts.length ? levelStarts[previous + 1] : 256;
+      if (value >= start - margin && value < end + margin) {
+        level = previous;
+      }
+    }
+
+    state.levels[i] = level;
+    levels[i] = level;
+  }
+
+  return levels;
+}
+
+/**
+ * Convert ImageData to an ASCII frame
+ * @param imageData Canvas ImageData
+ * @param cols Number of columns
+ * @param rows Number of rows
+ * @param lut Brightness lookup table
+ * @param settings Conversion settings (color mode etc.)
+ * @param glyphSet Rasterized glyphs, required by the 'glyph' mode
+ * @param temporal History of previous frames, required by stabilization
+ * @returns Converted frame
  */
 export function imageDataToAscii(
   imageData: ImageData,
   cols: number,
   rows: number,
   lut: string[],
-  colorMode: boolean = false
-): { ascii: string; colors?: string[] } {
-  const { data, width, height } = imageData;
+  settings: ConversionSettings,
+  glyphSet?: GlyphSet,
+  temporal?: TemporalState
+): AsciiFrame {
+  const { width, height } = imageData;
   const cellWidth = width / cols;
   const cellHeight = height / rows;
   
-  let ascii = '';
-  const colors: string[] = [];
+  let luminance = new Uint8Array(cols * rows);
+  let colors = settings.colorMode ? new Uint8ClampedArray(cols * rows * 3) : undefined;
+  let backgrounds: Uint8ClampedArray | undefined;
+  
+  // Built once, so every cell and sub-cell average below is four lookups
+  const integral = computeIntegralImage(imageData);
   
+  // Pass 1: average color and luminance of every cell
   for (let row = 0; row < rows; row++) {
-    let rowString = '';
-    let rowColor = '';
-    
     for (let col = 0; col < cols; col++) {
-      // Calculate average color for this cell
-      let totalR = 0, totalG = 0, totalB = 0;
-      let pixelCount = 0;
-      
       const startX = Math.floor(col * cellWidth);
       const endX = Math.floor((col + 1) * cellWidth);
       const startY = Math.floor(row * cellHeight);
       const endY = Math.floor((row + 1) * cellHeight);
+      const pixelCount = (endX - startX) * (endY - startY);
       
-      for (let y = startY; y < endY; y++) {
-        for (let x = startX; x < endX; x++) {
-          const index = (y * width + x) * 4;
-          totalR += data[index];
-          totalG += data[index + 1];
-          totalB += data[index + 2];
-          pixelCount++;
-        }
-      }
-      
+      // Empty cells keep luminance 0 and map to the darkest character
       if (pixelCount > 0) {
-        const avgR = totalR / pixelCount;
-        const avgG = totalG / pixelCount;
-        const avgB = totalB / pixelCount;
-        
-        const brightness = calculateLuminance(avgR, avgG, avgB);
-        const char = lut[brightness];
+        const avgR = boxSum(integral, startX, startY, endX, endY, 0) / pixelCount;
+        const avgG = boxSum(integral, startX, startY, endX, endY, 1) / pixelCount;
+        const avgB = boxSum(integral, startX, startY, endX, endY, 2) / pixelCount;
+        const cell = row * cols + col;
         
-        rowString += char;
+        luminance[cell] = calculateLuminance(avgR, avgG, avgB);
         
-        if (colorMode) {
-          rowColor = `rgb(${Math.round(avgR)}, ${Math.round(avgG)}, ${Math.round(avgB)})`;
+        if (colors) {
+          const offset = cell * 3;
+          colors[offset] = Math.round(avgR);
+          colors[offset + 1] = Math.round(avgG);
+          colors[offset + 2] = Math.round(avgB);
         }
-      } else {
-        rowString += lut[0]; // Default to darkest character
       }
     }
+  }
+  
+  // Optional stages between luminance and character lookup
+  // The histogram is only needed by auto-levels
+  const toneCurve = settings.adjustments
+    ? createToneCurve(
+        settings.adjustments,
+        settings.adjustments.autoLevels !== 'off' ? computeHistogram(luminance) : undefined
+      )
+    : null;
+  if (toneCurve) {
+    luminance = luminance.map(value => toneCurve[value]);
+  }
+  const stabilization = settings.stabilization?.enabled ? settings.stabilization : null;
+  if (temporal && stabilization) {
+    luminance = stabilizeLuminance(luminance, cols, rows, temporal, stabilization);
+  }
+  const gradients = settings.mode === 'edges' ? computeCellGradients(imageData, cols, rows) : null;
+  let cellChars: string[] | null = null;
+  
+  if (settings.charset === 'braille') {
+    cellChars = brailleCells(integral, cols, rows, settings, toneCurve);
+  } else if (settings.charset === 'halfblock') {
+    const halfBlocks = halfBlockCells(integral, cols, rows, settings, toneCurve);
+    cellChars = halfBlocks.chars;
+    colors = halfBlocks.colors ?? colors;
+    backgrounds = halfBlocks.backgrounds;
+  } else if (settings.mode === 'glyph' && glyphSet) {
+    cellChars = matchGlyphCells(integral, cols, rows, glyphSet, settings.invert, toneCurve);
+  }
+  const levelStarts = lutLevelStarts(lut);
+  let levels: Uint16Array | null = null;
+  if (settings.dither && settings.dither !== 'none') {
+    levels = ditherLuminance(luminance, cols, rows, levelStarts.length, settings.dither);
+  } else if (temporal && stabilization) {
+    levels = holdLevels(luminance, lut, levelStarts, temporal, stabilization.hysteresis);
+  }
+  
+  // Pass 2: pick a character for every cell
+  const chars: string[][] = [];
+  for (let row = 0; row < rows; row++) {
+    const rowChars: string[] = [];
     
-    ascii += rowString + '\n';
-    if (colorMode) {
-      colors.push(rowColor);
+    for (let col = 0; col < cols; col++) {
+      const cell = row * cols + col;
+      
+      if (cellChars) {
+        rowChars.push(cellChars[cell]);
+      } else if (
+        gradients &&
+        gradients.magnitude[cell] >= EDGE_THRESHOLD &&
+        gradients.coherence[cell] >= EDGE_COHERENCE
+      ) {
+        rowChars.push(edgeCharacter(gradients.orientation[cell], gradients.centroidY[cell]));
+      } else if (levels) {
+        rowChars.push(lut[levelStarts[levels[cell]]]);
+      } else {
+        rowChars.push(lut[luminance[cell]]);
+      }
     }
+    
+    chars.push(rowChars);
   }
   
-  return colorMode ? { ascii, colors } : { ascii };
+  return {
+    cols,
+    rows,
+    chars,
+    luminance,
+    colors,
+    backgrounds,
+    settings,
+    timestamp: performance.now()
+  };
+}
+
+/**
+ * Serialize a frame to plain text, one newline-terminated line per row
+ * @param frame ASCII frame
+ * @returns Plain text representation
+ */
+export function frameToText(frame: AsciiFrame): string {
+  let text = '';
+  for (const row of frame.chars) {
+    text += row.join('') + '\n';
+  }
+  return text;
+}
+
+/**
+ * xterm default colors of the 16 basic ANSI palette entries
+ */
+export const ANSI_16_PALETTE: readonly (readonly [number, number, number])[] = [
+  [0, 0, 0], [205, 0, 0], [0, 205, 0], [205, 205, 0],
+  [0, 0, 238], [205, 0, 205], [0, 205, 205], [229, 229, 229],
+  [127, 127, 127], [255, 0, 0], [0, 255, 0], [255, 255, 0],
+  [92, 92, 255], [255, 0, 255], [0, 255, 255], [255, 255, 255]
+];
+
+/**
+ * Channel levels of the 6x6x6 color cube in the xterm 256-color palette
+ */
+const ANSI_CUBE_LEVELS = [0, 95, 135, 175, 215, 255] as const;
+
+/**
+ * Control Sequence Introducer that starts every SGR sequence
+ */
+const CSI = '\x1b[';
+
+/**
+ * Squared RGB distance
+ */
+function rgbDistance(r1: number, g1: number, b1: number, r2: number, g2: number, b2: number): number {
+  return (r1 - r2) ** 2 + (g1 - g2) ** 2 + (b1 - b2) ** 2;
+}
+
+/**
+ * Nearest color cube level index for a channel value
+ */
+function nearestCubeLevel(value: number): number {
+  let best = 0;
+  for (let i = 1; i < ANSI_CUBE_LEVELS.length; i++) {
+    if (Math.abs(ANSI_CUBE_LEVELS[i] - value) < Math.abs(ANSI_CUBE_LEVELS[best] - value)) {
+      best = i;
+    }
+  }
+  return best;
+}
+
+/**
+ * Map an RGB color to the nearest entry of the xterm 256-color palette,
+ * choosing between the 6x6x6 color cube (16-231) and the gray ramp (232-255).
+ * The first 16 entries are skipped since terminals theme them freely.
+ * @param r Red (0-255)
+ * @param g Green (0-255)
+ * @param b Blue (0-255)
+ * @returns Palette index 16-255
+ */
+export function rgbToAnsi256(r: number, g: number, b: number): number {
+  const ri = nearestCubeLevel(r);
+  const gi = nearestCubeLevel(g);
+  const bi = nearestCubeLevel(b);
+  const cube = 16 + 36 * ri + 6 * gi + bi;
+  const cubeDistance = rgbDistance(r, g, b, ANSI_CUBE_LEVELS[ri], ANSI_CUBE_LEVELS[gi], ANSI_CUBE_LEVELS[bi]);
+
+  // Gray ramp: 8, 18, ..., 238
+  const grayStep = Math.min(23, Math.max(0, Math.round(((r + g + b) / 3 - 8) / 10)));
+  const gray = 8 + grayStep * 10;
+  const grayDistance = rgbDistance(r, g, b, gray, gray, gray);
+
+  return grayDistance < cubeDistance ? 232 + grayStep : cube;
+}
+
+/**
+ * Map an RGB color to the nearest of the 16 basic ANSI colors
+ * @param r Red (0-255)
+ * @param g Green (0-255)
+ * @param b Blue (0-255)
+ * @returns Palette index 0-15
+ */
+export function rgbToAnsi16(r: number, g: number, b: number): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  ANSI_16_PALETTE.forEach(([pr, pg, pb], index) => {
+    const distance = rgbDistance(r, g, b, pr, pg, pb);
+    if (distance < bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+/**
+ * RGB color of an xterm 256-color palette entry
+ * @param index Palette index 0-255
+ * @returns RGB triplet
+ */
+export function ansi256ToRgb(index: number): [number, number, number] {
+  if (index < 16) {
+    const [r, g, b] = ANSI_16_PALETTE[Math.max(0, index)];
+    return [r, g, b];
+  }
+  if (index < 232) {
+    const cube = index - 16;
+    return [
+      ANSI_CUBE_LEVELS[Math.floor(cube / 36)],
+      ANSI_CUBE_LEVELS[Math.floor(cube / 6) % 6],
+      ANSI_CUBE_LEVELS[cube % 6]
+    ];
+  }
+  const gray = 8 + (Math.min(255, index) - 232) * 10;
+  return [gray, gray, gray];
+}
+
+/**
+ * SGR parameters selecting the color of a cell
+ */
+function ansiColorParams(colors: Uint8ClampedArray, index: number, depth: AnsiColorDepth, background: boolean): string {
+  const offset = index * 3;
+  const r = colors[offset];
+  const g = colors[offset + 1];
+  const b = colors[offset + 2];
+
+  switch (depth) {
+    case 'truecolor':
+      return `${background ? 48 : 38};2;${r};${g};${b}`;
+    case '256':
+      return `${background ? 48 : 38};5;${rgbToAnsi256(r, g, b)}`;
+    case '16': {
+      const color = rgbToAnsi16(r, g, b);
+      const base = color < 8 ? (background ? 40 : 30) : (background ? 100 : 90);
+      return String(base + (color % 8));
+    }
+  }
+}
+
+/**
+ * Serialize a frame as text with ANSI SGR color sequences, emitting a new
+ * sequence only where the color changes and resetting at the end of every
+ * line. Frames without colors come out as plain text.
+ * @param frame ASCII frame
+ * @param depth Color depth of the sequences
+ * @returns ANSI-colored text, one newline-terminated line per row
+ */
+export function frameToAnsi(frame: AsciiFrame, depth: AnsiColorDepth = 'truecolor'): string {
+  const { cols, colors, backgrounds } = frame;
+  if (!colors) {
+    return frameToText(frame);
+  }
+
+  let text = '';
+  frame.chars.forEach((chars, row) => {
+    let current = '';
+    chars.forEach((char, col) => {
+      const cell = row * cols + col;
+      let params = ansiColorParams(colors, cell, depth, false);
+      if (backgrounds) {
+        params += ';' + ansiColorParams(backgrounds, cell, depth, true);
+      }
+      if (params !== current) {
+        text += `${CSI}${params}m`;
+        current = params;
+      }
+      text += char;
+    });
+    text += `${CSI}0m\n`;
+  });
+  return text;
+}
+
+/**
+ * Format the color of a single cell as a CSS color string
+ * @param colors Packed RGB triplets, one per cell
+ * @param index Cell index (row * cols + col)
+ * @returns CSS rgb() color
+ */
+export function cellColor(colors: Uint8ClampedArray, index: number): string {
+  const offset = index * 3;
+  return `rgb(${colors[offset]}, ${colors[offset + 1]}, ${colors[offset + 2]})`;
+}
+
+/**
+ * Check whether two cells have the same RGB triplet
+ */
+function sameRgb(colors: Uint8ClampedArray, a: number, b: number): boolean {
+  return colors[a * 3] === colors[b * 3] &&
+    colors[a * 3 + 1] === colors[b * 3 + 1] &&
+    colors[a * 3 + 2] === colors[b * 3 + 2];
+}
+
+/**
+ * Split a frame row into runs of consecutive cells sharing the same colors,
+ * so renderers can emit one element per run instead of one per cell
+ * @param frame ASCII frame
+ * @param row Row index
+ * @returns Color runs covering the whole row
+ */
+export function groupColorRuns(frame: AsciiFrame, row: number): ColorRun[] {
+  const { cols, colors, backgrounds } = frame;
+  const chars = frame.chars[row];
+
+  if (!colors) {
+    return chars.length > 0 ? [{ text: chars.join(''), cells: chars.length, color: 'currentColor' }] : [];
+  }
+
+  const runs: ColorRun[] = [];
+  let runStart = 0;
+
+  for (let col = 1; col <= chars.length; col++) {
+    const prev = row * cols + col - 1;
+    const curr = row * cols + col;
+    const sameColors = col < chars.length &&
+      sameRgb(colors, prev, curr) &&
+      (!backgrounds || sameRgb(backgrounds, prev, curr));
+
+    if (!sameColors) {
+      const start = row * cols + runStart;
+      const run: ColorRun = {
+        text: chars.slice(runStart, col).join(''),
+        cells: col - runStart,
+        color: cellColor(colors, start)
+      };
+      if (backgrounds) {
+        run.background = cellColor(backgrounds, start);
+      }
+      runs.push(run);
+      runStart = col;
+    }
+  }
+
+  return runs;
+}
+
+/**
+ * Check whether a cell has the same RGB triplet in two color arrays
+ */
+function sameCellRgb(a: Uint8ClampedArray, b: Uint8ClampedArray, index: number): boolean {
+  const offset = index * 3;
+  return a[offset] === b[offset] && a[offset + 1] === b[offset + 1] && a[offset + 2] === b[offset + 2];
+}
+
+/**
+ * Find the cells whose character or colors differ from the previous frame,
+ * so renderers can patch those instead of redrawing the whole grid
+ * @param previous Previous frame, null for the first one
+ * @param next New frame
+ * @returns Changed rows and cells; full when the frames are not comparable
+ */
+export function diffFrames(previous: AsciiFrame | null, next: AsciiFrame): FrameChanges {
+  const { cols, rows } = next;
+  const since = previous?.changes?.sequence ?? -1;
+  const sequence = since + 1;
+
+  const comparable = previous !== null &&
+    previous.cols === cols &&
+    previous.rows === rows &&
+    !previous.colors === !next.colors &&
+    !previous.backgrounds === !next.backgrounds;
+
+  if (!comparable) {
+    return {
+      sequence,
+      since,
+      full: true,
+      rows: Array.from({ length: rows }, (_, row) => row),
+      cells: new Uint32Array(0)
+    };
+  }
+
+  const changedRows: number[] = [];
+  const cells: number[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    const before = previous.chars[row];
+    const after = next.chars[row];
+    const changedBefore = cells.length;
+
+    for (let col = 0; col < cols; col++) {
+      const cell = row * cols + col;
+      if (
+        before[col] !== after[col] ||
+        (next.colors && !sameCellRgb(previous.colors!, next.colors, cell)) ||
+        (next.backgrounds && !sameCellRgb(previous.backgrounds!, next.backgrounds, cell))
+      ) {
+        cells.push(cell);
+      }
+    }
+
+    if (cells.length > changedBefore) {
+      changedRows.push(row);
+    }
+  }
+
+  return { sequence, since, full: false, rows: changedRows, cells: Uint32Array.from(cells) };
+}
+
+/**
+ * Changes of a frame relative to the last one a renderer drew: the
+ * converter's own changes when the frame directly follows it, a fresh diff
+ * otherwise (e.g. when intermediate frames were never drawn)
+ * @param drawn Last drawn frame, null if none
+ * @param next Frame to draw
+ * @returns Changes to apply on top of the drawn frame
+ */
+export function resolveFrameChanges(drawn: AsciiFrame | null, next: AsciiFrame): FrameChanges {
+  const drawnSequence = drawn?.changes?.sequence;
+  if (next.changes && drawnSequence !== undefined && next.changes.since === drawnSequence) {
+    return next.changes;
+  }
+  return diffFrames(drawn, next);
 }
 
 /**
  * Optimized version that reuses typed arrays
  */
 export class AsciiConverter {
-  private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
+  private canvas: HTMLCanvasElement | OffscreenCanvas;
+  private ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
   private imageData: ImageData | null = null;
+  private glyphFont: string;
+  private downscale: boolean;
+  private glyphSets = new Map<string, GlyphSet>();
+  private temporal = createTemporalState();
+  private previousFrame: AsciiFrame | null = null;
   
-  constructor() {
-    this.canvas = document.createElement('canvas');
-    const ctx = this.canvas.getContext('2d');
+  /**
+   * @param glyphFont Font used to rasterize glyphs for the 'glyph' mode
+   * @param downscale Scale frames down to the output grid before readback
+   */
+  constructor(glyphFont: string = GLYPH_FONT, downscale: boolean = true) {
+    this.glyphFont = glyphFont;
+    this.downscale = downscale;
+    // OffscreenCanvas when running inside a worker
+    this.canvas = createCanvas(1, 1);
+    const ctx = this.canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
     if (!ctx) {
       throw new Error('Could not create canvas context');
     }
@@ -182,30 +1447,38 @@ export class AsciiConverter {
    * @param cols Number of columns
    * @param rows Number of rows
    * @param lut Brightness lookup table
-   * @param colorMode Whether to include color
-   * @returns ASCII conversion result
+   * @param settings Conversion settings
+   * @returns Converted frame
    */
   convertVideoFrame(
     video: HTMLVideoElement,
     cols: number,
     rows: number,
     lut: string[],
-    colorMode: boolean = false
-  ): { ascii: string; colors?: string[] } {
-    // Resize canvas if needed
-    if (this.canvas.width !== video.videoWidth || this.canvas.height !== video.videoHeight) {
-      this.canvas.width = video.videoWidth;
-      this.canvas.height = video.videoHeight;
-    }
-    
-    // Draw video frame to canvas
-    this.ctx.drawImage(video, 0, 0);
-    
-    // Get image data
-    this.imageData = this.ctx.getImageData(0, 0, this.canvas.width, this.canvas.height);
-    
-    // Convert to ASCII
-    return imageDataToAscii(this.imageData, cols, rows, lut, colorMode);
+    settings: ConversionSettings
+  ): AsciiFrame {
+    const imageData = this.readPixels(video, video.videoWidth, video.videoHeight, cols, rows);
+    return this.convertImageData(imageData, cols, rows, lut, settings);
+  }
+  
+  /**
+   * Convert a frame from a frame source to ASCII
+   * @param frame Drawable with its pixel size
+   * @param cols Number of columns
+   * @param rows Number of rows
+   * @param lut Brightness lookup table
+   * @param settings Conversion settings
+   * @returns Converted frame
+   */
+  convertFrame(
+    frame: SourceFrame,
+    cols: number,
+    rows: number,
+    lut: string[],
+    settings: ConversionSettings
+  ): AsciiFrame {
+    const imageData = this.readPixels(frame.image, frame.width, frame.height, cols, rows, frame.x, frame.y);
+    return this.convertImageData(imageData, cols, rows, lut, settings);
   }
   
   /**
@@ -214,23 +1487,18 @@ export class AsciiConverter {
    * @param cols Number of columns
    * @param rows Number of rows
    * @param lut Brightness lookup table
-   * @param colorMode Whether to include color
+   * @param settings Conversion settings
+   * @returns Converted frame
    */
   convertImageBitmap(
     bitmap: ImageBitmap,
     cols: number,
     rows: number,
     lut: string[],
-    colorMode: boolean = false
-  ): { ascii: string; colors?: string[] } {
-    // Resize canvas to match bitmap
-    this.canvas.width = bitmap.width;
-    this.canvas.height = bitmap.height;
-    
-    this.ctx.drawImage(bitmap, 0, 0);
-    this.imageData = this.ctx.getImageData(0, 0, this.canvas.width, this.canvas.height);
-    
-    return imageDataToAscii(this.imageData, cols, rows, lut, colorMode);
+    settings: ConversionSettings
+  ): AsciiFrame {
+    const imageData = this.readPixels(bitmap, bitmap.width, bitmap.height, cols, rows);
+    return this.convertImageData(imageData, cols, rows, lut, settings);
   }
   
   /**
@@ -239,27 +1507,93 @@ export class AsciiConverter {
    * @param cols Number of columns
    * @param rows Number of rows
    * @param lut Brightness lookup table
-   * @param colorMode Whether to include color
-   * @returns ASCII conversion result
+   * @param settings Conversion settings
+   * @returns Converted frame
    */
   convertImage(
     image: HTMLImageElement,
     cols: number,
     rows: number,
     lut: string[],
-    colorMode: boolean = false
-  ): { ascii: string; colors?: string[] } {
-    // Resize canvas to match image
-    this.canvas.width = image.naturalWidth || image.width;
-    this.canvas.height = image.naturalHeight || image.height;
+    settings: ConversionSettings
+  ): AsciiFrame {
+    const imageData = this.readPixels(image, image.naturalWidth || image.width, image.naturalHeight || image.height, cols, rows);
+    return this.convertImageData(imageData, cols, rows, lut, settings);
+  }
+  
+  /**
+   * Forget previous frames, e.g. after switching to a different source
+   */
+  resetTemporal(): void {
+    this.temporal = createTemporalState();
+    this.previousFrame = null;
+  }
+  
+  /**
+   * Draw a source area scaled to the readback size and read its pixels
+   */
+  private readPixels(
+    source: CanvasImageSource,
+    width: number,
+    height: number,
+    cols: number,
+    rows: number,
+    x: number = 0,
+    y: number = 0
+  ): ImageData {
+    const size = this.downscale ? calculateReadbackSize(width, height, cols, rows) : { width, height };
     
-    // Draw image to canvas
-    this.ctx.drawImage(image, 0, 0);
+    // Resize canvas if needed
+    if (this.canvas.width !== size.width || this.canvas.height !== size.height) {
+      this.canvas.width = size.width;
+      this.canvas.height = size.height;
+    }
     
-    // Get image data
-    this.imageData = this.ctx.getImageData(0, 0, this.canvas.width, this.canvas.height);
+    // Resizing resets the context state
+    this.ctx.imageSmoothingEnabled = true;
+    this.ctx.imageSmoothingQuality = 'high';
+    this.ctx.drawImage(source, x, y, width, height, 0, 0, size.width, size.height);
+    this.imageData = this.ctx.getImageData(0, 0, size.width, size.height);
+    return this.imageData;
+  }
+  
+  /**
+   * Convert ImageData, rendering glyph bitmaps on first use in 'glyph' mode,
+   * and record which cells changed since the previous frame
+   */
+  private convertImageData(
+    imageData: ImageData,
+    cols: number,
+    rows: number,
+    lut: string[],
+    settings: ConversionSettings
+  ): AsciiFrame {
+    const glyphSet = settings.mode === 'glyph' ? this.getGlyphSet(lut) : undefined;
+    const frame = imageDataToAscii(imageData, cols, rows, lut, settings, glyphSet, this.temporal);
+    frame.changes = diffFrames(this.previousFrame, frame);
+    
+    // Own copies: the worker transfers the frame's buffers to the main thread
+    this.previousFrame = {
+      ...frame,
+      colors: frame.colors?.slice(),
+      backgrounds: frame.backgrounds?.slice()
+    };
+    return frame;
+  }
+  
+  /**
+   * Get the cached glyph set for the characters of a LUT
+   */
+  private getGlyphSet(lut: string[]): GlyphSet {
+    const chars = Array.from(new Set(lut));
+    const key = chars.join('');
+    let glyphSet = this.glyphSets.get(key);
+    
+    if (!glyphSet) {
+      glyphSet = renderGlyphSet(chars, this.glyphFont, CHAR_Y_PER_X);
+      this.glyphSets.set(key, glyphSet);
+    }
     
-    // Convert to ASCII
-    return imageDataToAscii(this.imageData, cols, rows, lut, colorMode);
+    return glyphSet;
   }
 }
@@ -0,0 +1,38 @@
+/**
+ * Conversion worker: turns posted ImageBitmaps into ASCII frames with an
+ * OffscreenCanvas-backed converter
+ */
+
+import { AsciiConverter } from './ascii';
+import type { WorkerConvertResponse, WorkerRequest } from '../types/ascii';
+
+let converter: AsciiConverter | null = null;
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  if ('reset' in event.data) {
+    converter?.resetTemporal();
+    return;
+  }
+
+  const { id, bitmap, cols, rows, lut, settings, timestamp } = event.data;
+
+  let response: WorkerConvertResponse;
+  const transfer: Transferable[] = [];
+
+  try {
+    converter ??= new AsciiConverter();
+    const frame = { ...converter.convertImageBitmap(bitmap, cols, rows, lut, settings), timestamp };
+    response = { id, frame };
+
+    transfer.push(frame.luminance.buffer);
+    if (frame.colors) transfer.push(frame.colors.buffer);
+    if (frame.backgrounds) transfer.push(frame.backgrounds.buffer);
+    if (frame.changes) transfer.push(frame.changes.cells.buffer);
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    bitmap.close();
+  }
+
+  self.postMessage(response, { transfer });
+};
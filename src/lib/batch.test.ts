@@ -0,0 +1,111 @@
+import { AsciiConverter, CHARSETS, createBrightnessLUT } from './ascii';
+import { batchFileName, batchToZip, convertImageFile, imageFiles } from './batch';
+import type { AsciiFrame, BatchImage, ConversionSettings } from '../types/ascii';
+
+const settings: ConversionSettings = { invert: false, colorMode: false, charset: 'simple' };
+
+const createFrame = (lines: string[]): AsciiFrame => ({
+  cols: lines[0].length,
+  rows: lines.length,
+  chars: lines.map(line => line.split('')),
+  luminance: new Uint8Array(lines.length * lines[0].length),
+  settings,
+  timestamp: 0
+});
+
+// Names listed in a ZIP's central directory
+const zipNames = (bytes: Uint8Array): string[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length - 22;
+  let offset = view.getUint32(end + 16, true);
+  return Array.from({ length: view.getUint16(end + 10, true) }, () => {
+    const length = view.getUint16(offset + 28, true);
+    const name = String.fromCharCode(...bytes.slice(offset + 46, offset + 46 + length));
+    offset += 46 + length;
+    return name;
+  });
+};
+
+describe('imageFiles', () => {
+  it('should keep only images', () => {
+    const files = [
+      new File([''], 'a.png', { type: 'image/png' }),
+      new File([''], 'notes.txt', { type: 'text/plain' }),
+      new File([''], 'b.jpg', { type: 'image/jpeg' })
+    ];
+    expect(imageFiles(files).map(file => file.name)).toEqual(['a.png', 'b.jpg']);
+    expect(imageFiles(null)).toEqual([]);
+  });
+});
+
+describe('batchFileName', () => {
+  it('should swap the extension', () => {
+    expect(batchFileName('photo.jpeg', 'txt', new Set())).toBe('photo.txt');
+    expect(batchFileName('archive.tar.png', 'svg', new Set())).toBe('archive.tar.svg');
+    expect(batchFileName('no-extension', 'txt', new Set())).toBe('no-extension.txt');
+  });
+
+  it('should number repeated names', () => {
+    const taken = new Set<string>();
+    expect(batchFileName('photo.png', 'txt', taken)).toBe('photo.txt');
+    expect(batchFileName('photo.jpg', 'txt', taken)).toBe('photo (2).txt');
+    expect(batchFileName('PHOTO.gif', 'txt', taken)).toBe('PHOTO (3).txt');
+  });
+
+  it('should not produce paths', () => {
+    expect(batchFileName('a/b.png', 'txt', new Set())).toBe('a_b.txt');
+    expect(batchFileName('.png', 'txt', new Set())).toBe('image.txt');
+  });
+});
+
+describe('batchToZip', () => {
+  it('should add one file per converted image', () => {
+    const images: BatchImage[] = [
+      { id: 1, name: 'one.png', frame: createFrame(['ab']), error: null },
+      { id: 2, name: 'broken.png', frame: null, error: 'Could not load image' },
+      { id: 3, name: 'one.jpg', frame: createFrame(['cd']), error: null }
+    ];
+
+    expect(zipNames(batchToZip(images, 'text'))).toEqual(['one.txt', 'one (2).txt']);
+    expect(zipNames(batchToZip(images, 'svg'))).toEqual(['one.svg', 'one (2).svg']);
+  });
+
+  it('should store the exported content', () => {
+    const zip = batchToZip([{ id: 1, name: 'a.png', frame: createFrame(['@@', '..']), error: null }], 'text');
+    expect(String.fromCharCode(...zip)).toContain('@@\n..\n');
+  });
+});
+
+describe('convertImageFile', () => {
+  const OriginalImage = global.Image;
+
+  beforeEach(() => {
+    // jsdom does not decode images
+    global.Image = class {
+      onload: (() => void) | null = null;
+      onerror: (() => void) | null = null;
+      naturalWidth = 200;
+      naturalHeight = 100;
+      set src(_value: string) {
+        setTimeout(() => this.onload?.(), 0);
+      }
+    } as unknown as typeof Image;
+  });
+
+  afterEach(() => {
+    global.Image = OriginalImage;
+  });
+
+  it('should convert at the requested width and release the file', async () => {
+    const converter = new AsciiConverter();
+    const resetTemporal = jest.spyOn(converter, 'resetTemporal');
+    const lut = createBrightnessLUT(CHARSETS.simple);
+
+    const frame = await convertImageFile(new File([''], 'a.png', { type: 'image/png' }), converter, 40, lut, settings);
+
+    expect(frame.cols).toBe(40);
+    expect(frame.rows).toBe(10);
+    expect(resetTemporal).toHaveBeenCalled();
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('mock-url');
+  });
+});
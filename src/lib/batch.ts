@@ -0,0 +1,88 @@
+/**
+ * Batch conversion of still images and their download as one archive
+ */
+
+import { AsciiConverter, calculateGridDimensions } from './ascii';
+import { DEFAULT_SNAPSHOT_STYLE, exportFrame } from './export';
+import { ImageSource } from './frameSources';
+import { createZip } from './zip';
+import type { AsciiFrame, BatchImage, ConversionSettings, ExportFormat, SnapshotStyle } from '../types/ascii';
+
+/**
+ * Pick the images out of dropped, pasted or selected files
+ * @param files Files from an input, a drop or the clipboard
+ * @returns Image files in their original order
+ */
+export function imageFiles(files: FileList | readonly File[] | null | undefined): File[] {
+  return Array.from(files ?? []).filter(file => file.type.startsWith('image/'));
+}
+
+/**
+ * Convert a still image with the given settings
+ * @param file Image file
+ * @param converter Converter to use; its temporal history is reset so images do not blend
+ * @param cols Number of columns, rows follow the image aspect
+ * @param lut Brightness lookup table
+ * @param settings Conversion settings
+ * @returns Converted frame
+ */
+export async function convertImageFile(
+  file: Blob,
+  converter: AsciiConverter,
+  cols: number,
+  lut: string[],
+  settings: ConversionSettings
+): Promise<AsciiFrame> {
+  const source = new ImageSource(file);
+  try {
+    await source.start();
+    const input = source.getFrame();
+    if (!input) {
+      throw new Error('Could not load image');
+    }
+    const grid = calculateGridDimensions(input.width, input.height, cols, settings.charset);
+    converter.resetTemporal();
+    return converter.convertFrame(input, grid.cols, grid.rows, lut, settings);
+  } finally {
+    source.stop();
+  }
+}
+
+/**
+ * Name of a converted image inside the archive: the original name with
+ * the export extension, numbered when another file already has it
+ * @param name Original file name
+ * @param extension Export extension without the dot
+ * @param taken Names already used; the returned name is added
+ * @returns Unique file name
+ */
+export function batchFileName(name: string, extension: string, taken: Set<string>): string {
+  const base = name.replace(/\.[^./\\]*$/, '').replace(/[/\\]/g, '_') || 'image';
+  let candidate = `${base}.${extension}`;
+  for (let copy = 2; taken.has(candidate.toLowerCase()); copy++) {
+    candidate = `${base} (${copy}).${extension}`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/**
+ * Pack converted images into a ZIP archive, skipping failed ones
+ * @param images Batch results
+ * @param format Export format of every file
+ * @param style Font and colors for formats that embed styling
+ * @returns Archive bytes
+ */
+export function batchToZip(
+  images: BatchImage[],
+  format: ExportFormat,
+  style: SnapshotStyle = DEFAULT_SNAPSHOT_STYLE
+): Uint8Array {
+  const taken = new Set<string>();
+  const entries = images.flatMap(image => {
+    if (!image.frame) return [];
+    const snapshot = exportFrame(image.frame, format, style);
+    return [{ name: batchFileName(image.name, snapshot.extension, taken), content: snapshot.content }];
+  });
+  return createZip(entries);
+}
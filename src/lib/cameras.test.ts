@@ -0,0 +1,107 @@
+import {
+  CAMERA_PREFERENCES_KEY,
+  DEFAULT_CAMERA_PREFERENCES,
+  buildCameraConstraints,
+  listCameras,
+  loadCameraPreferences,
+  saveCameraPreferences,
+  watchCameras
+} from './cameras';
+
+const device = (kind: MediaDeviceKind, deviceId: string, label: string = '') =>
+  ({ kind, deviceId, label, groupId: '' }) as MediaDeviceInfo;
+
+describe('Cameras', () => {
+  const mediaDevices = navigator.mediaDevices as unknown as Record<string, unknown>;
+
+  beforeEach(() => {
+    localStorage.clear();
+    mediaDevices.enumerateDevices = jest.fn().mockResolvedValue([
+      device('audioinput', 'mic'),
+      device('videoinput', 'front', 'FaceTime HD'),
+      device('videoinput', 'usb')
+    ]);
+  });
+
+  afterEach(() => {
+    delete mediaDevices.enumerateDevices;
+    delete mediaDevices.addEventListener;
+    delete mediaDevices.removeEventListener;
+  });
+
+  describe('listCameras', () => {
+    it('should list video inputs and number unnamed ones', async () => {
+      await expect(listCameras()).resolves.toEqual([
+        { deviceId: 'front', label: 'FaceTime HD' },
+        { deviceId: 'usb', label: 'Camera 2' }
+      ]);
+    });
+
+    it('should skip devices hidden before camera access', async () => {
+      mediaDevices.enumerateDevices = jest.fn().mockResolvedValue([device('videoinput', '')]);
+
+      await expect(listCameras()).resolves.toEqual([]);
+    });
+  });
+
+  describe('watchCameras', () => {
+    it('should report the new list on devicechange until stopped', async () => {
+      const listeners = new Set<() => void>();
+      mediaDevices.addEventListener = jest.fn((_type: string, listener: () => void) => listeners.add(listener));
+      mediaDevices.removeEventListener = jest.fn((_type: string, listener: () => void) => listeners.delete(listener));
+      const onChange = jest.fn();
+
+      const stop = watchCameras(onChange);
+      listeners.forEach(listener => listener());
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(mediaDevices.addEventListener).toHaveBeenCalledWith('devicechange', expect.any(Function));
+      expect(onChange).toHaveBeenCalledWith([
+        { deviceId: 'front', label: 'FaceTime HD' },
+        { deviceId: 'usb', label: 'Camera 2' }
+      ]);
+
+      stop();
+      expect(listeners.size).toBe(0);
+    });
+  });
+
+  describe('buildCameraConstraints', () => {
+    it('should prefer the facing mode without an explicit camera', () => {
+      expect(buildCameraConstraints({ ...DEFAULT_CAMERA_PREFERENCES, facingMode: 'environment' })).toEqual({
+        facingMode: { ideal: 'environment' },
+        width: { ideal: 640 },
+        height: { ideal: 480 },
+        frameRate: { ideal: 30 }
+      });
+    });
+
+    it('should require an explicit camera exactly', () => {
+      const constraints = buildCameraConstraints({ ...DEFAULT_CAMERA_PREFERENCES, deviceId: 'usb', frameRate: 60 });
+
+      expect(constraints).toMatchObject({ deviceId: { exact: 'usb' }, frameRate: { ideal: 60 } });
+      expect(constraints).not.toHaveProperty('facingMode');
+    });
+  });
+
+  describe('preferences', () => {
+    it('should default without saved preferences', () => {
+      expect(loadCameraPreferences()).toEqual(DEFAULT_CAMERA_PREFERENCES);
+    });
+
+    it('should remember the last camera and format', () => {
+      const preferences = { deviceId: 'usb', width: 1280, height: 720, frameRate: 24, facingMode: 'environment' as const };
+      saveCameraPreferences(preferences);
+
+      expect(loadCameraPreferences()).toEqual(preferences);
+    });
+
+    it('should replace invalid fields with defaults', () => {
+      localStorage.setItem(CAMERA_PREFERENCES_KEY, JSON.stringify({ deviceId: 5, width: -1, facingMode: 'up', frameRate: 15 }));
+      expect(loadCameraPreferences()).toEqual({ ...DEFAULT_CAMERA_PREFERENCES, frameRate: 15 });
+
+      localStorage.setItem(CAMERA_PREFERENCES_KEY, '{not json');
+      expect(loadCameraPreferences()).toEqual(DEFAULT_CAMERA_PREFERENCES);
+    });
+  });
+});
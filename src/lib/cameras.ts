@@ -0,0 +1,128 @@
+/**
+ * Camera enumeration, capture constraints and remembered camera choice
+ */
+
+import type { CameraDevice, CameraFacingMode, CameraPreferences } from '../types/ascii';
+
+/**
+ * localStorage key for the camera preferences
+ */
+export const CAMERA_PREFERENCES_KEY = 'ascii-mirror:camera';
+
+/**
+ * Capture resolutions offered in the picker
+ */
+export const CAMERA_RESOLUTIONS: readonly { width: number; height: number }[] = [
+  { width: 320, height: 240 },
+  { width: 640, height: 480 },
+  { width: 1280, height: 720 },
+  { width: 1920, height: 1080 }
+];
+
+/**
+ * Capture frame rates offered in the picker
+ */
+export const CAMERA_FRAME_RATES: readonly number[] = [15, 24, 30, 60];
+
+/**
+ * Default device in front-camera mode at 640×480, 30 fps
+ */
+export const DEFAULT_CAMERA_PREFERENCES: CameraPreferences = {
+  deviceId: null,
+  width: 640,
+  height: 480,
+  frameRate: 30,
+  facingMode: 'user'
+};
+
+const FACING_MODES: readonly CameraFacingMode[] = ['user', 'environment'];
+
+/**
+ * List the available cameras. Labels are empty until camera access has
+ * been granted once, so unnamed cameras are numbered instead.
+ * @returns Video inputs in the order the browser reports them
+ */
+export async function listCameras(): Promise<CameraDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) {
+    return [];
+  }
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'videoinput' && device.deviceId !== '')
+    .map((device, index) => ({ deviceId: device.deviceId, label: device.label || `Camera ${index + 1}` }));
+}
+
+/**
+ * Call back whenever cameras are plugged in or removed
+ * @param onChange Called with the new camera list
+ * @returns Function that stops watching
+ */
+export function watchCameras(onChange: (cameras: CameraDevice[]) => void): () => void {
+  const mediaDevices = navigator.mediaDevices;
+  if (!mediaDevices?.addEventListener) {
+    return () => {};
+  }
+
+  const handleChange = () => {
+    listCameras()
+      .then(onChange)
+      .catch(error => console.warn('Could not list cameras:', error));
+  };
+  mediaDevices.addEventListener('devicechange', handleChange);
+  return () => mediaDevices.removeEventListener('devicechange', handleChange);
+}
+
+/**
+ * Turn preferences into track constraints. Sizes and rates are ideal
+ * values, so a camera that cannot match them still starts; an explicit
+ * device is required exactly, otherwise the facing mode picks one.
+ * @param preferences Camera choice and format
+ * @returns Constraints for getUserMedia
+ */
+export function buildCameraConstraints(preferences: CameraPreferences): MediaTrackConstraints {
+  return {
+    ...(preferences.deviceId
+      ? { deviceId: { exact: preferences.deviceId } }
+      : { facingMode: { ideal: preferences.facingMode } }),
+    width: { ideal: preferences.width },
+    height: { ideal: preferences.height },
+    frameRate: { ideal: preferences.frameRate }
+  };
+}
+
+/**
+ * Load saved camera preferences
+ * @returns Preferences, defaults where storage is unavailable or corrupt
+ */
+export function loadCameraPreferences(): CameraPreferences {
+  try {
+    const stored = localStorage.getItem(CAMERA_PREFERENCES_KEY);
+    if (!stored) return DEFAULT_CAMERA_PREFERENCES;
+
+    const parsed = JSON.parse(stored);
+    const isPositive = (value: unknown): value is number => typeof value === 'number' && value > 0;
+
+    return {
+      deviceId: typeof parsed?.deviceId === 'string' ? parsed.deviceId : null,
+      width: isPositive(parsed?.width) ? parsed.width : DEFAULT_CAMERA_PREFERENCES.width,
+      height: isPositive(parsed?.height) ? parsed.height : DEFAULT_CAMERA_PREFERENCES.height,
+      frameRate: isPositive(parsed?.frameRate) ? parsed.frameRate : DEFAULT_CAMERA_PREFERENCES.frameRate,
+      facingMode: FACING_MODES.includes(parsed?.facingMode) ? parsed.facingMode : DEFAULT_CAMERA_PREFERENCES.facingMode
+    };
+  } catch {
+    return DEFAULT_CAMERA_PREFERENCES;
+  }
+}
+
+/**
+ * Save camera preferences
+ * @param preferences Preferences to persist
+ */
+export function saveCameraPreferences(preferences: CameraPreferences): void {
+  try {
+    localStorage.setItem(CAMERA_PREFERENCES_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.warn('Could not save camera preferences:', error);
+  }
+}
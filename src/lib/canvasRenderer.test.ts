@@ -0,0 +1,123 @@
+import { diffFrames } from './ascii';
+import { CanvasAsciiRenderer } from './canvasRenderer';
+import { DomAsciiRenderer } from './domRenderer';
+import { createRenderer } from './renderers';
+import type { AsciiFrame, ConversionSettings } from '../types/ascii';
+
+const settings: ConversionSettings = { charset: 'simple', invert: false, colorMode: false };
+
+const createFrame = (lines: string[], colors?: Uint8ClampedArray): AsciiFrame => ({
+  cols: lines[0].length,
+  rows: lines.length,
+  chars: lines.map(line => line.split('')),
+  luminance: new Uint8Array(lines.length * lines[0].length),
+  colors,
+  settings: { ...settings, colorMode: colors !== undefined },
+  timestamp: 0
+});
+
+// Context that records every call, shared by all canvases
+const createRecordingContext = () => {
+  const calls: { method: string; args: unknown[]; fillStyle: unknown }[] = [];
+  const ctx: Record<string, unknown> = {
+    calls,
+    measureText: jest.fn(() => ({ width: 6 }))
+  };
+  for (const method of ['clearRect', 'drawImage', 'fillRect', 'fillText']) {
+    ctx[method] = jest.fn((...args: unknown[]) => calls.push({ method, args, fillStyle: ctx.fillStyle }));
+  }
+  return ctx as unknown as CanvasRenderingContext2D & { calls: typeof calls };
+};
+
+describe('CanvasAsciiRenderer', () => {
+  let container: HTMLElement;
+  let ctx: ReturnType<typeof createRecordingContext>;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    ctx = createRecordingContext();
+    jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(() => ctx);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const callsOf = (method: string) => ctx.calls.filter(call => call.method === method);
+
+  it('should size the canvas in whole device pixels per cell', () => {
+    const renderer = new CanvasAsciiRenderer(container, { fontSize: 10, fontFamily: 'monospace' });
+    renderer.render(createFrame(['abc', 'def']));
+
+    const canvas = container.querySelector('canvas')!;
+    expect(canvas.width).toBe(18);
+    expect(canvas.height).toBe(20);
+  });
+
+  it('should render each glyph into the atlas only once', () => {
+    const renderer = new CanvasAsciiRenderer(container, { fontSize: 10 });
+    renderer.render(createFrame(['@@.', '.@@']));
+
+    expect(callsOf('fillText').map(call => call.args[0])).toEqual(['@', '.']);
+  });
+
+  it('should skip blank cells', () => {
+    const renderer = new CanvasAsciiRenderer(container, { fontSize: 10 });
+    renderer.render(createFrame(['  ', '  ']));
+
+    expect(callsOf('fillText')).toHaveLength(0);
+  });
+
+  it('should repaint only the rows that changed', () => {
+    const first = createFrame(['ab', 'cd', 'ef']);
+    first.changes = diffFrames(null, first);
+    const second = createFrame(['ab', 'cX', 'ef']);
+    second.changes = diffFrames(first, second);
+
+    const renderer = new CanvasAsciiRenderer(container, { fontSize: 10 });
+    renderer.render(first);
+    ctx.calls.length = 0;
+
+    expect(renderer.render(second)).toEqual([1]);
+    // One row strip copied onto the output canvas at y = 1 row
+    const copies = callsOf('drawImage').filter(call => call.args.length === 9 && call.args[1] === 0 && call.args[2] === 0);
+    expect(copies).toHaveLength(1);
+    expect(copies[0].args[6]).toBe(10);
+  });
+
+  it('should fill one rectangle per run of equal colors', () => {
+    const colors = new Uint8ClampedArray([255, 0, 0, 255, 0, 0, 0, 0, 255]);
+    const renderer = new CanvasAsciiRenderer(container, { fontSize: 10 });
+    renderer.render(createFrame(['ab@'], colors));
+
+    expect(callsOf('fillRect').map(call => [call.fillStyle, call.args[0], call.args[2]])).toEqual([
+      ['rgb(255, 0, 0)', 0, 12],
+      ['rgb(0, 0, 255)', 12, 6]
+    ]);
+  });
+
+  it('should use the foreground color for frames without colors', () => {
+    const renderer = new CanvasAsciiRenderer(container, { fontSize: 10, foreground: '#abcdef' });
+    renderer.render(createFrame(['ab']));
+
+    expect(callsOf('fillRect').map(call => call.fillStyle)).toEqual(['#abcdef']);
+  });
+
+  it('should remove its canvas on dispose', () => {
+    const renderer = new CanvasAsciiRenderer(container, { fontSize: 10 });
+    renderer.dispose();
+
+    expect(container.querySelector('canvas')).toBeNull();
+  });
+});
+
+describe('createRenderer', () => {
+  it('should create the requested renderer', () => {
+    jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(() => createRecordingContext());
+    const container = document.createElement('div');
+
+    expect(createRenderer('dom', container)).toBeInstanceOf(DomAsciiRenderer);
+    expect(createRenderer('canvas', container)).toBeInstanceOf(CanvasAsciiRenderer);
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Canvas 2D output for ASCII frames
+ */
+
+import { cellColor, resolveFrameChanges } from './ascii';
+import type { AsciiRenderer } from './renderers';
+import type { AsciiFrame } from '../types/ascii';
+
+export interface CanvasRendererOptions {
+  /** Font size in CSS pixels, taken from the container when omitted */
+  fontSize?: number;
+  /** Font family, taken from the container when omitted */
+  fontFamily?: string;
+  /** Text color of frames without per-cell colors, taken from the container when omitted */
+  foreground?: string;
+}
+
+/**
+ * Get a 2D context or fail loudly
+ */
+function getContext(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not create canvas context');
+  }
+  return ctx;
+}
+
+/**
+ * White glyph masks drawn once with fillText, one cell-sized slot per
+ * character, grown on demand
+ */
+class GlyphAtlas {
+  readonly canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private font: string;
+  private cellWidth: number;
+  private cellHeight: number;
+  private slots = new Map<string, number>();
+  private capacity = 64;
+
+  constructor(font: string, cellWidth: number, cellHeight: number) {
+    this.font = font;
+    this.cellWidth = cellWidth;
+    this.cellHeight = cellHeight;
+    this.canvas = document.createElement('canvas');
+    this.ctx = getContext(this.canvas);
+    this.resize();
+  }
+
+  /**
+   * Slot of a character, rendering it on first use
+   * @param char Character
+   * @returns Slot index; the glyph is at x = slot * cellWidth
+   */
+  slot(char: string): number {
+    let slot = this.slots.get(char);
+
+    if (slot === undefined) {
+      slot = this.slots.size;
+      this.slots.set(char, slot);
+
+      if (slot >= this.capacity) {
+        // Resizing clears the canvas, so every glyph is drawn again
+        this.capacity *= 2;
+        this.resize();
+        this.slots.forEach((index, glyph) => this.draw(glyph, index));
+      } else {
+        this.draw(char, slot);
+      }
+    }
+
+    return slot;
+  }
+
+  private resize(): void {
+    this.canvas.width = this.capacity * this.cellWidth;
+    this.canvas.height = this.cellHeight;
+  }
+
+  private draw(char: string, slot: number): void {
+    const ctx = this.ctx;
+    ctx.font = this.font;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#fff';
+    // maxWidth squeezes wide glyphs (CJK, emoji) into their cell
+    ctx.fillText(char, (slot + 0.5) * this.cellWidth, this.cellHeight / 2, this.cellWidth);
+  }
+}
+
+/**
+ * Draws frames on a canvas. Each changed row is assembled from atlas glyph
+ * masks, tinted with the per-cell colors through 'destination-in'
+ * compositing, and copied onto the output canvas; unchanged rows are not
+ * touched.
+ */
+export class CanvasAsciiRenderer implements AsciiRenderer {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  /** Glyph masks of the row being drawn */
+  private maskCanvas: HTMLCanvasElement;
+  private maskCtx: CanvasRenderingContext2D;
+  /** Colored glyphs of the row being drawn */
+  private rowCanvas: HTMLCanvasElement;
+  private rowCtx: CanvasRenderingContext2D;
+  private atlas: GlyphAtlas;
+  private foreground: string;
+  /** Device pixel ratio the canvas was sized for */
+  private scale: number;
+  /** Cell size in device pixels */
+  private cellWidth: number;
+  private cellHeight: number;
+  private lastFrame: AsciiFrame | null = null;
+
+  /**
+   * @param container Element that receives the canvas
+   * @param options Font and color, inherited from the container by default
+   */
+  constructor(container: HTMLElement, options: CanvasRendererOptions = {}) {
+    const computed = getComputedStyle(container);
+    const fontSize = options.fontSize ?? (parseFloat(computed.fontSize) || 10);
+    const fontFamily = options.fontFamily ?? (computed.fontFamily || 'monospace');
+    this.foreground = options.foreground ?? (computed.color || '#0f0');
+    this.scale = window.devicePixelRatio || 1;
+
+    this.canvas = document.createElement('canvas');
+    this.canvas.style.display = 'block';
+    this.ctx = getContext(this.canvas);
+    this.maskCanvas = document.createElement('canvas');
+    this.maskCtx = getContext(this.maskCanvas);
+    this.rowCanvas = document.createElement('canvas');
+    this.rowCtx = getContext(this.rowCanvas);
+
+    // Whole device pixels per cell keep glyphs and color fills aligned
+    const font = `${fontSize * this.scale}px ${fontFamily}`;
+    this.ctx.font = font;
+    this.cellWidth = Math.max(1, Math.round(this.ctx.measureText('M').width));
+    this.cellHeight = Math.max(1, Math.round(fontSize * this.scale));
+    this.atlas = new GlyphAtlas(font, this.cellWidth, this.cellHeight);
+
+    container.appendChild(this.canvas);
+  }
+
+  /**
+   * Draw a frame, repainting the rows changed since the last one
+   * @param frame ASCII frame
+   * @returns Indices of the rows that were repainted
+   */
+  render(frame: AsciiFrame): number[] {
+    const changes = resolveFrameChanges(this.lastFrame, frame);
+    this.lastFrame = frame;
+
+    if (changes.full) {
+      this.resize(frame.cols, frame.rows);
+    }
+
+    for (const row of changes.rows) {
+      this.paintRow(frame, row);
+    }
+    return changes.rows;
+  }
+
+  /**
+   * Erase the canvas
+   */
+  clear(): void {
+    this.lastFrame = null;
+    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+  }
+
+  /**
+   * Remove the canvas from the container
+   */
+  dispose(): void {
+    this.lastFrame = null;
+    this.canvas.remove();
+  }
+
+  /**
+   * Size the canvases for a grid; the output keeps its CSS size in cells
+   */
+  private resize(cols: number, rows: number): void {
+    const width = cols * this.cellWidth;
+    const height = rows * this.cellHeight;
+
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+      this.canvas.style.width = `${width / this.scale}px`;
+      this.canvas.style.height = `${height / this.scale}px`;
+    } else {
+      this.ctx.clearRect(0, 0, width, height);
+    }
+
+    for (const canvas of [this.maskCanvas, this.rowCanvas]) {
+      if (canvas.width !== width || canvas.height !== this.cellHeight) {
+        canvas.width = width;
+        canvas.height = this.cellHeight;
+      }
+    }
+  }
+
+  /**
+   * Repaint a single row: backgrounds, then colored glyphs
+   */
+  private paintRow(frame: AsciiFrame, row: number): void {
+    const { cellWidth, cellHeight } = this;
+    const width = frame.cols * cellWidth;
+    const y = row * cellHeight;
+
+    // Glyph masks
+    this.maskCtx.clearRect(0, 0, width, cellHeight);
+    frame.chars[row].forEach((char, col) => {
+      if (char.trim() === '') return;
+      const slot = this.atlas.slot(char);
+      this.maskCtx.drawImage(
+        this.atlas.canvas,
+        slot * cellWidth, 0, cellWidth, cellHeight,
+        col * cellWidth, 0, cellWidth, cellHeight
+      );
+    });
+
+    // Text colors, kept only where the glyphs have ink
+    const rowCtx = this.rowCtx;
+    rowCtx.globalCompositeOperation = 'source-over';
+    rowCtx.clearRect(0, 0, width, cellHeight);
+    if (frame.colors) {
+      this.fillColorRuns(rowCtx, frame.colors, frame, row, 0);
+    } else {
+      rowCtx.fillStyle = this.foreground;
+      rowCtx.fillRect(0, 0, width, cellHeight);
+    }
+    rowCtx.globalCompositeOperation = 'destination-in';
+    rowCtx.drawImage(this.maskCanvas, 0, 0);
+    rowCtx.globalCompositeOperation = 'source-over';
+
+    // Output row
+    this.ctx.clearRect(0, y, width, cellHeight);
+    if (frame.backgrounds) {
+      this.fillColorRuns(this.ctx, frame.backgrounds, frame, row, y);
+    }
+    this.ctx.drawImage(this.rowCanvas, 0, 0, width, cellHeight, 0, y, width, cellHeight);
+  }
+
+  /**
+   * Fill the cells of a row with their colors, one rectangle per run of
+   * equal neighbours
+   */
+  private fillColorRuns(
+    ctx: CanvasRenderingContext2D,
+    colors: Uint8ClampedArray,
+    frame: AsciiFrame,
+    row: number,
+    y: number
+  ): void {
+    const { cellWidth, cellHeight } = this;
+    const rowStart = row * frame.cols;
+    let runStart = 0;
+    let runColor = cellColor(colors, rowStart);
+
+    for (let col = 1; col <= frame.cols; col++) {
+      const color = col < frame.cols ? cellColor(colors, rowStart + col) : null;
+      if (color !== runColor) {
+        ctx.fillStyle = runColor;
+        ctx.fillRect(runStart * cellWidth, y, (col - runStart) * cellWidth, cellHeight);
+        runStart = col;
+        runColor = color ?? runColor;
+      }
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import {
+  CUSTOM_CHARSETS_KEY,
+  createCustomCharset,
+  isCustomCharset,
+  loadCustomCharsets,
+  orderByInkCoverage,
+  resolveCharset,
+  saveCustomCharsets,
+  sortCharsetByDensity
+} from './charsets';
+import { CHARSETS, createBrightnessLUT } from './ascii';
+import * as glyphs from './glyphs';
+import type { CustomCharset } from '../types/ascii';
+
+const CUSTOM: CustomCharset = { id: 'custom:test', name: 'Test', chars: ' .oO@' };
+
+describe('Custom Charsets', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    jest.restoreAllMocks();
+  });
+
+  describe('orderByInkCoverage', () => {
+    it('should sort glyphs from least to most ink', () => {
+      expect(orderByInkCoverage(['@', ' ', 'o', '.'], [0.6, 0, 0.3, 0.05])).toEqual([' ', '.', 'o', '@']);
+    });
+
+    it('should drop repeated glyphs', () => {
+      expect(orderByInkCoverage(['#', '.', '#', '.'], [0.5, 0.1, 0.5, 0.1])).toEqual(['.', '#']);
+    });
+
+    it('should keep input order for equal coverage', () => {
+      expect(orderByInkCoverage(['b', 'a', 'c'], [0.2, 0.2, 0.2])).toEqual(['b', 'a', 'c']);
+    });
+  });
+
+  describe('sortCharsetByDensity', () => {
+    it('should order glyphs by measured coverage', () => {
+      const coverage: Record<string, number> = { ' ': 0, '.': 0.05, '木': 0.4, '█': 1 };
+      jest.spyOn(glyphs, 'measureGlyphCoverage').mockImplementation(chars =>
+        chars.map(char => Float32Array.of(coverage[char]))
+      );
+
+      expect(sortCharsetByDensity('█木 .木')).toBe(' .木█');
+    });
+
+    it('should keep surrogate pairs and combining marks together', () => {
+      jest.spyOn(glyphs, 'measureGlyphCoverage').mockImplementation(chars =>
+        chars.map((_, i) => Float32Array.of(i))
+      );
+
+      expect(glyphs.splitGlyphs(sortCharsetByDensity('é🙂'))).toEqual(['é', '🙂']);
+    });
+
+    it('should ignore line breaks and tabs', () => {
+      expect(sortCharsetByDensity('a\nb\tc')).toHaveLength(3);
+    });
+  });
+
+  describe('createCustomCharset', () => {
+    it('should create a named custom charset', () => {
+      const charset = createCustomCharset(' My ramp ', '@ .');
+
+      expect(isCustomCharset(charset.id)).toBe(true);
+      expect(charset.name).toBe('My ramp');
+      expect(charset.chars).toHaveLength(3);
+    });
+
+    it('should reject ramps with a single distinct glyph', () => {
+      expect(() => createCustomCharset('Bad', '###')).toThrow('at least two');
+    });
+  });
+
+  describe('resolveCharset', () => {
+    it('should resolve built-in and custom charsets', () => {
+      expect(resolveCharset('blocks')).toBe(CHARSETS.blocks);
+      expect(resolveCharset('custom:test', [CUSTOM])).toBe(' .oO@');
+    });
+
+    it('should fall back to the simple charset for missing custom charsets', () => {
+      expect(resolveCharset('custom:gone', [CUSTOM])).toBe(CHARSETS.simple);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should save and load custom charsets', () => {
+      saveCustomCharsets([CUSTOM]);
+      expect(loadCustomCharsets()).toEqual([CUSTOM]);
+    });
+
+    it('should ignore corrupt storage', () => {
+      localStorage.setItem(CUSTOM_CHARSETS_KEY, '{not json');
+      expect(loadCustomCharsets()).toEqual([]);
+
+      localStorage.setItem(CUSTOM_CHARSETS_KEY, JSON.stringify([{ id: 'simple', name: 'x', chars: 'ab' }]));
+      expect(loadCustomCharsets()).toEqual([]);
+    });
+  });
+
+  it('should build a lookup table from astral glyphs', () => {
+    const lut = createBrightnessLUT('🌑🌓🌕');
+
+    expect(lut[0]).toBe('🌑');
+    expect(lut[128]).toBe('🌓');
+    expect(lut[255]).toBe('🌕');
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * User-defined charsets: density ordering and persistence
+ */
+
+import type { CharsetName, CustomCharset } from '../types/ascii';
+import { CHARSETS, CHAR_Y_PER_X } from './ascii';
+import { GLYPH_FONT, measureGlyphCoverage, splitGlyphs } from './glyphs';
+
+/**
+ * localStorage key for saved custom charsets
+ */
+export const CUSTOM_CHARSETS_KEY = 'ascii-mirror:custom-charsets';
+
+/**
+ * Check whether a charset name refers to a user-defined charset
+ * @param name Charset name
+ * @returns True for custom charsets
+ */
+export function isCustomCharset(name: CharsetName): name is CustomCharset['id'] {
+  return name.startsWith('custom:');
+}
+
+/**
+ * Drop repeated glyphs and sort the rest from least to most ink, keeping
+ * input order for glyphs with equal coverage
+ * @param glyphs Glyphs to order
+ * @param coverage Ink coverage (0-1) per glyph
+ * @returns Ordered unique glyphs
+ */
+export function orderByInkCoverage(glyphs: string[], coverage: ArrayLike<number>): string[] {
+  const seen = new Set<string>();
+  const entries: { glyph: string; coverage: number }[] = [];
+
+  glyphs.forEach((glyph, i) => {
+    if (seen.has(glyph)) return;
+    seen.add(glyph);
+    entries.push({ glyph, coverage: coverage[i] });
+  });
+
+  return entries
+    .sort((a, b) => a.coverage - b.coverage)
+    .map(entry => entry.glyph);
+}
+
+/**
+ * Measure every glyph of a ramp in a font and order it by ink coverage
+ * @param text Glyphs in any order, whitespace other than spaces is ignored
+ * @param font CSS font shorthand the ramp will be displayed in
+ * @returns Ramp from least to most ink
+ */
+export function sortCharsetByDensity(text: string, font: string = GLYPH_FONT): string {
+  const glyphs = splitGlyphs(text).filter(glyph => glyph === ' ' || glyph.trim() !== '');
+  const unique = Array.from(new Set(glyphs));
+  const coverage = measureGlyphCoverage(unique, font, CHAR_Y_PER_X, 1, 1).map(grid => grid[0]);
+  return orderByInkCoverage(unique, coverage).join('');
+}
+
+/**
+ * Create a custom charset from an arbitrary ramp
+ * @param name Display name
+ * @param text Glyphs in any order
+ * @param font CSS font shorthand used to measure ink coverage
+ * @returns Custom charset ordered by density
+ * @throws Error if the ramp has fewer than two distinct glyphs
+ */
+export function createCustomCharset(name: string, text: string, font: string = GLYPH_FONT): CustomCharset {
+  const chars = sortCharsetByDensity(text, font);
+  if (splitGlyphs(chars).length < 2) {
+    throw new Error('Charset needs at least two distinct characters');
+  }
+
+  return {
+    id: `custom:${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name: name.trim() || 'Custom',
+    chars
+  };
+}
+
+/**
+ * Resolve a charset name to its glyph ramp
+ * @param name Built-in or custom charset name
+ * @param customCharsets Saved custom charsets
+ * @returns Glyph ramp, falling back to the simple charset if a custom one is missing
+ */
+export function resolveCharset(name: CharsetName, customCharsets: CustomCharset[] = []): string {
+  if (isCustomCharset(name)) {
+    return customCharsets.find(charset => charset.id === name)?.chars ?? CHARSETS.simple;
+  }
+  return CHARSETS[name] ?? CHARSETS.simple;
+}
+
+/**
+ * Load saved custom charsets
+ * @returns Custom charsets, empty if storage is unavailable or corrupt
+ */
+export function loadCustomCharsets(): CustomCharset[] {
+  try {
+    const stored = localStorage.getItem(CUSTOM_CHARSETS_KEY);
+    if (!stored) return [];
+
+    const parsed: unknown = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed.filter((item): item is CustomCharset =>
+      typeof item?.id === 'string' &&
+      item.id.startsWith('custom:') &&
+      typeof item.name === 'string' &&
+      typeof item.chars === 'string' &&
+      item.chars.length > 0
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save custom charsets
+ * @param customCharsets Charsets to persist
+ */
+export function saveCustomCharsets(customCharsets: CustomCharset[]): void {
+  try {
+    localStorage.setItem(CUSTOM_CHARSETS_KEY, JSON.stringify(customCharsets));
+  } catch (error) {
+    console.warn('Could not save custom charsets:', error);
+  }
+}
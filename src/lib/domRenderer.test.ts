@@ -0,0 +1,100 @@
+import { diffFrames } from './ascii';
+import { DomAsciiRenderer } from './domRenderer';
+import type { AsciiFrame, ConversionSettings } from '../types/ascii';
+
+const settings: ConversionSettings = { charset: 'simple', invert: false, colorMode: false };
+
+const createFrame = (lines: string[], colors?: Uint8ClampedArray): AsciiFrame => ({
+  cols: lines[0].length,
+  rows: lines.length,
+  chars: lines.map(line => line.split('')),
+  luminance: new Uint8Array(lines.length * lines[0].length),
+  colors,
+  settings: { ...settings, colorMode: colors !== undefined },
+  timestamp: 0
+});
+
+// Attach changes the way AsciiConverter does
+const convertSequence = (...frames: AsciiFrame[]): AsciiFrame[] => {
+  let previous: AsciiFrame | null = null;
+  for (const frame of frames) {
+    frame.changes = diffFrames(previous, frame);
+    previous = frame;
+  }
+  return frames;
+};
+
+describe('DomAsciiRenderer', () => {
+  let container: HTMLElement;
+  let renderer: DomAsciiRenderer;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    renderer = new DomAsciiRenderer(container);
+  });
+
+  it('should render one element per row', () => {
+    renderer.render(createFrame(['ab', 'cd']));
+
+    expect(Array.from(container.children, row => row.textContent)).toEqual(['ab', 'cd']);
+  });
+
+  it('should rewrite only the rows that changed', () => {
+    const [first, second] = convertSequence(createFrame(['ab', 'cd', 'ef']), createFrame(['ab', 'cX', 'ef']));
+    renderer.render(first);
+    const rows = Array.from(container.children);
+
+    expect(renderer.render(second)).toEqual([1]);
+    expect(Array.from(container.children)).toEqual(rows);
+    expect(container.children[1].textContent).toBe('cX');
+  });
+
+  it('should leave the DOM untouched for a static scene', () => {
+    const [first, second] = convertSequence(createFrame(['ab', 'cd']), createFrame(['ab', 'cd']));
+    renderer.render(first);
+    const observer = new MutationObserver(() => {});
+    observer.observe(container, { childList: true, subtree: true, characterData: true });
+
+    expect(renderer.render(second)).toEqual([]);
+    expect(observer.takeRecords()).toHaveLength(0);
+    observer.disconnect();
+  });
+
+  it('should diff against the last drawn frame when frames were skipped', () => {
+    const [first, , third] = convertSequence(
+      createFrame(['ab', 'cd']),
+      createFrame(['aX', 'cd']),
+      createFrame(['aX', 'cd'])
+    );
+    renderer.render(first);
+
+    // The converter reports no changes since the skipped frame
+    expect(third.changes!.rows).toEqual([]);
+    expect(renderer.render(third)).toEqual([0]);
+    expect(container.children[0].textContent).toBe('aX');
+  });
+
+  it('should rebuild all rows when the grid size changes', () => {
+    const [first, second] = convertSequence(createFrame(['ab', 'cd']), createFrame(['abc', 'def', 'ghi']));
+    renderer.render(first);
+
+    expect(renderer.render(second)).toEqual([0, 1, 2]);
+    expect(container.children).toHaveLength(3);
+  });
+
+  it('should render color runs as spans', () => {
+    const colors = new Uint8ClampedArray([255, 0, 0, 255, 0, 0, 0, 0, 255]);
+    renderer.render(createFrame(['ab@'], colors));
+
+    const spans = container.querySelectorAll('span');
+    expect(Array.from(spans, span => span.textContent)).toEqual(['ab', '@']);
+    expect(spans[1].style.color).toBe('rgb(0, 0, 255)');
+  });
+
+  it('should remove all rows on clear', () => {
+    renderer.render(createFrame(['ab']));
+    renderer.clear();
+
+    expect(container.children).toHaveLength(0);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Incremental DOM output for ASCII frames
+ */
+
+import { groupColorRuns, resolveFrameChanges } from './ascii';
+import type { AsciiRenderer } from './renderers';
+import type { AsciiFrame } from '../types/ascii';
+
+/**
+ * Draws frames as one element per row and rewrites only the rows that
+ * changed, so a static scene costs no DOM mutations at all. Uses the
+ * changes reported by the converter when they follow the last drawn frame,
+ * and diffs against that frame itself otherwise (e.g. after skipped frames).
+ */
+export class DomAsciiRenderer implements AsciiRenderer {
+  private container: HTMLElement;
+  private rowElements: HTMLElement[] = [];
+  private lastFrame: AsciiFrame | null = null;
+
+  /**
+   * @param container Element that receives the row elements
+   */
+  constructor(container: HTMLElement) {
+    this.container = container;
+  }
+
+  /**
+   * Draw a frame, patching the rows changed since the last one
+   * @param frame ASCII frame
+   * @returns Indices of the rows that were rewritten
+   */
+  render(frame: AsciiFrame): number[] {
+    const changes = resolveFrameChanges(this.lastFrame, frame);
+    this.lastFrame = frame;
+
+    if (changes.full || this.rowElements.length !== frame.rows) {
+      this.rowElements = frame.chars.map(() => document.createElement('div'));
+      frame.chars.forEach((_, row) => this.paintRow(frame, row));
+      this.container.replaceChildren(...this.rowElements);
+      return this.rowElements.map((_, row) => row);
+    }
+
+    for (const row of changes.rows) {
+      this.paintRow(frame, row);
+    }
+    return changes.rows;
+  }
+
+  /**
+   * Remove all rows
+   */
+  clear(): void {
+    this.rowElements = [];
+    this.lastFrame = null;
+    this.container.replaceChildren();
+  }
+
+  /**
+   * Remove all rows; the container itself is left in place
+   */
+  dispose(): void {
+    this.clear();
+  }
+
+  /**
+   * Rewrite a single row, as plain text or as one span per color run
+   */
+  private paintRow(frame: AsciiFrame, row: number): void {
+    const element = this.rowElements[row];
+
+    if (!frame.colors) {
+      element.textContent = frame.chars[row].join('');
+      return;
+    }
+
+    element.replaceChildren(...groupColorRuns(frame, row).map(run => {
+      const span = document.createElement('span');
+      span.textContent = run.text;
+      span.style.color = run.color;
+      if (run.background) {
+        span.style.backgroundColor = run.background;
+      }
+      return span;
+    }));
+  }
+}
@@ -0,0 +1,98 @@
+import { DEFAULT_SNAPSHOT_STYLE, EXPORT_EXTENSIONS, exportFrame, frameToHtml, frameToSvg } from './export';
+import type { AsciiFrame, ConversionSettings, ExportFormat } from '../types/ascii';
+
+const settings: ConversionSettings = { charset: 'simple', invert: false, colorMode: true };
+
+const createFrame = (lines: string[], colors?: number[], backgrounds?: number[]): AsciiFrame => ({
+  cols: lines[0].length,
+  rows: lines.length,
+  chars: lines.map(line => line.split('')),
+  luminance: new Uint8Array(lines.length * lines[0].length),
+  colors: colors && new Uint8ClampedArray(colors),
+  backgrounds: backgrounds && new Uint8ClampedArray(backgrounds),
+  settings,
+  timestamp: 0
+});
+
+const style = { ...DEFAULT_SNAPSHOT_STYLE, fontFamily: 'monospace', fontSize: 10 };
+
+describe('frameToHtml', () => {
+  it('should merge equally colored cells into one span', () => {
+    const frame = createFrame(['ab@'], [255, 0, 0, 255, 0, 0, 0, 0, 255]);
+    const html = frameToHtml(frame, style);
+
+    expect(html).toContain(
+      '<pre><span style="color:rgb(255, 0, 0)">ab</span><span style="color:rgb(0, 0, 255)">@</span>\n</pre>'
+    );
+  });
+
+  it('should embed the font and colors', () => {
+    const html = frameToHtml(createFrame(['a']), style);
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('font-family: monospace; font-size: 10px;');
+    expect(html).toContain(`background: ${style.background};`);
+    expect(html).toContain(`color: ${style.foreground};`);
+  });
+
+  it('should escape markup characters', () => {
+    expect(frameToHtml(createFrame(['<&>']), style)).toContain('<pre>&lt;&amp;&gt;\n</pre>');
+  });
+
+  it('should paint cell backgrounds', () => {
+    const frame = createFrame(['▀'], [255, 255, 255], [0, 0, 255]);
+
+    expect(frameToHtml(frame, style)).toContain('<span style="color:rgb(255, 255, 255);background:rgb(0, 0, 255)">▀</span>');
+  });
+});
+
+describe('frameToSvg', () => {
+  it('should size the image from the cell geometry', () => {
+    const svg = frameToSvg(createFrame(['abc', 'def']), style);
+
+    expect(svg).toContain('width="18" height="20" viewBox="0 0 18 20"');
+  });
+
+  it('should place each color run at its cell with a fixed text length', () => {
+    const frame = createFrame(['ab@', '   '], [
+      255, 0, 0, 255, 0, 0, 0, 0, 255,
+      0, 0, 0, 0, 0, 0, 0, 0, 0
+    ]);
+    const svg = frameToSvg(frame, style);
+
+    expect(svg).toContain('<text x="0" y="8" textLength="12" lengthAdjust="spacingAndGlyphs" fill="rgb(255, 0, 0)">ab</text>');
+    expect(svg).toContain('<text x="12" y="8" textLength="6" lengthAdjust="spacingAndGlyphs" fill="rgb(0, 0, 255)">@</text>');
+    // Blank runs produce no text element
+    expect(svg.match(/<text /g)).toHaveLength(2);
+  });
+
+  it('should draw background runs as rectangles', () => {
+    const frame = createFrame(['▀▀'], [255, 255, 255, 255, 255, 255], [0, 0, 255, 0, 0, 255]);
+
+    expect(frameToSvg(frame, style)).toContain('<rect x="0" y="0" width="12" height="10" fill="rgb(0, 0, 255)"/>');
+  });
+
+  it('should inherit the foreground color without per-cell colors', () => {
+    const svg = frameToSvg(createFrame(['a<']), style);
+
+    expect(svg).toContain(`fill="${style.foreground}">`);
+    expect(svg).toContain('lengthAdjust="spacingAndGlyphs">a&lt;</text>');
+  });
+});
+
+describe('exportFrame', () => {
+  it.each(Object.keys(EXPORT_EXTENSIONS) as ExportFormat[])('should export %s with its extension', format => {
+    const snapshot = exportFrame(createFrame(['ab'], [1, 2, 3, 4, 5, 6]), format);
+
+    expect(snapshot.extension).toBe(EXPORT_EXTENSIONS[format]);
+    expect(snapshot.content.length).toBeGreaterThan(0);
+  });
+
+  it('should export plain text unchanged', () => {
+    expect(exportFrame(createFrame(['ab', 'cd']), 'text')).toEqual({
+      content: 'ab\ncd\n',
+      extension: 'txt',
+      mimeType: 'text/plain'
+    });
+  });
+});
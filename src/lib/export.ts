@@ -0,0 +1,226 @@
+/**
+ * Snapshot export: serialize frames to shareable file formats
+ */
+
+import { frameToAnsi, frameToText, groupColorRuns } from './ascii';
+import type { AsciiFrame, ExportFormat, SnapshotStyle, SnapshotTheme } from '../types/ascii';
+
+/**
+ * Snapshot look matching the on-screen display
+ */
+export const DEFAULT_SNAPSHOT_STYLE: SnapshotStyle = {
+  fontFamily: "'JetBrains Mono', 'Fira Code', Menlo, monospace",
+  fontSize: 10,
+  foreground: '#0f0',
+  background: '#111'
+};
+
+/**
+ * Text and background colors of every snapshot theme
+ */
+export const SNAPSHOT_THEMES: Record<SnapshotTheme, Pick<SnapshotStyle, 'foreground' | 'background'>> = {
+  terminal: { foreground: '#0f0', background: '#111' },
+  dark: { foreground: '#fff', background: '#000' },
+  light: { foreground: '#000', background: '#fff' }
+};
+
+/**
+ * Font families offered for snapshots, by label
+ */
+export const SNAPSHOT_FONTS: Record<string, string> = {
+  'JetBrains Mono': DEFAULT_SNAPSHOT_STYLE.fontFamily,
+  'Courier New': "'Courier New', Courier, monospace",
+  'System monospace': 'monospace'
+};
+
+/**
+ * Advance of a monospace glyph relative to the font size
+ */
+export const CHAR_WIDTH_EM = 0.6;
+
+/**
+ * Baseline position within a cell, relative to the cell height
+ */
+const BASELINE_EM = 0.8;
+
+/**
+ * File extension of every export format
+ */
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  text: 'txt',
+  'ansi-truecolor': 'ans',
+  'ansi-256': 'ans',
+  'ansi-16': 'ans',
+  html: 'html',
+  svg: 'svg'
+};
+
+/**
+ * A serialized snapshot ready for download or the clipboard
+ */
+export interface ExportedSnapshot {
+  content: string;
+  extension: string;
+  mimeType: string;
+}
+
+/**
+ * Save a blob as a file through a temporary download link
+ * @param blob File content
+ * @param filename Suggested file name
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Escape text for HTML and XML content and attributes
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Format a coordinate with at most two decimals
+ */
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Serialize a frame as a standalone HTML page: a monospace <pre> with one
+ * span per run of equally colored cells and the styles embedded
+ * @param frame ASCII frame
+ * @param style Font and colors
+ * @returns HTML document
+ */
+export function frameToHtml(frame: AsciiFrame, style: SnapshotStyle = DEFAULT_SNAPSHOT_STYLE): string {
+  let body = '';
+  for (let row = 0; row < frame.rows; row++) {
+    for (const run of groupColorRuns(frame, row)) {
+      const text = escapeXml(run.text);
+      if (!frame.colors) {
+        body += text;
+        continue;
+      }
+      const background = run.background ? `;background:${run.background}` : '';
+      body += `<span style="color:${run.color}${background}">${text}</span>`;
+    }
+    body += '\n';
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>ASCII snapshot ${frame.cols}×${frame.rows}</title>`,
+    '<style>',
+    `body { margin: 0; background: ${style.background}; }`,
+    `pre { margin: 0; padding: 16px; font-family: ${style.fontFamily}; font-size: ${style.fontSize}px; ` +
+      `line-height: 1; letter-spacing: 0; color: ${style.foreground}; }`,
+    '</style>',
+    '</head>',
+    '<body>',
+    `<pre>${body}</pre>`,
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Serialize a frame as an SVG image with one text element per run of
+ * equally colored cells. Runs are stretched to their cell width with
+ * textLength, so the grid keeps its geometry whatever font is substituted.
+ * @param frame ASCII frame
+ * @param style Font and colors
+ * @returns SVG document
+ */
+export function frameToSvg(frame: AsciiFrame, style: SnapshotStyle = DEFAULT_SNAPSHOT_STYLE): string {
+  const cellWidth = style.fontSize * CHAR_WIDTH_EM;
+  const cellHeight = style.fontSize;
+  const width = formatNumber(frame.cols * cellWidth);
+  const height = formatNumber(frame.rows * cellHeight);
+
+  const backgrounds: string[] = [];
+  const texts: string[] = [];
+
+  for (let row = 0; row < frame.rows; row++) {
+    const y = row * cellHeight;
+    let col = 0;
+
+    for (const run of groupColorRuns(frame, row)) {
+      const x = formatNumber(col * cellWidth);
+      const runWidth = formatNumber(run.cells * cellWidth);
+
+      if (run.background) {
+        backgrounds.push(
+          `<rect x="${x}" y="${formatNumber(y)}" width="${runWidth}" height="${formatNumber(cellHeight)}" fill="${run.background}"/>`
+        );
+      }
+      if (run.text.trim() !== '') {
+        const fill = frame.colors ? ` fill="${run.color}"` : '';
+        texts.push(
+          `<text x="${x}" y="${formatNumber(y + cellHeight * BASELINE_EM)}" textLength="${runWidth}" ` +
+          `lengthAdjust="spacingAndGlyphs"${fill}>${escapeXml(run.text)}</text>`
+        );
+      }
+      col += run.cells;
+    }
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" ` +
+      `xml:space="preserve">`,
+    `<rect width="100%" height="100%" fill="${style.background}"/>`,
+    ...backgrounds,
+    `<g font-family="${escapeXml(style.fontFamily)}" font-size="${style.fontSize}" fill="${style.foreground}">`,
+    ...texts,
+    '</g>',
+    '</svg>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Serialize a frame in an export format
+ * @param frame ASCII frame
+ * @param format Export format
+ * @param style Font and colors for formats that embed styling
+ * @returns File content, extension and MIME type
+ */
+export function exportFrame(
+  frame: AsciiFrame,
+  format: ExportFormat,
+  style: SnapshotStyle = DEFAULT_SNAPSHOT_STYLE
+): ExportedSnapshot {
+  const extension = EXPORT_EXTENSIONS[format];
+
+  switch (format) {
+    case 'text':
+      return { content: frameToText(frame), extension, mimeType: 'text/plain' };
+    case 'ansi-truecolor':
+      return { content: frameToAnsi(frame, 'truecolor'), extension, mimeType: 'text/plain' };
+    case 'ansi-256':
+      return { content: frameToAnsi(frame, '256'), extension, mimeType: 'text/plain' };
+    case 'ansi-16':
+      return { content: frameToAnsi(frame, '16'), extension, mimeType: 'text/plain' };
+    case 'html':
+      return { content: frameToHtml(frame, style), extension, mimeType: 'text/html' };
+    case 'svg':
+      return { content: frameToSvg(frame, style), extension, mimeType: 'image/svg+xml' };
+  }
+}
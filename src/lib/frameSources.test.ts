@@ -0,0 +1,419 @@
+import {
+  CanvasSource,
+  ImageSource,
+  normalizeRegion,
+  ScreenCaptureSource,
+  TestPatternSource,
+  VideoFileSource,
+  WebcamSource
+} from './frameSources';
+
+// Video element with a decoded frame of the given size
+const createVideo = (width: number, height: number): HTMLVideoElement => {
+  const video = document.createElement('video');
+  Object.defineProperties(video, {
+    videoWidth: { value: width },
+    videoHeight: { value: height },
+    readyState: { value: 4 }
+  });
+  video.play = jest.fn().mockResolvedValue(undefined);
+  video.pause = jest.fn();
+  video.load = jest.fn();
+  return video;
+};
+
+describe('CanvasSource', () => {
+  it('should pull the canvas once started', async () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 40;
+    canvas.height = 30;
+    const source = new CanvasSource(canvas);
+    const onReady = jest.fn();
+    source.on('ready', onReady);
+
+    expect(source.getFrame()).toBeNull();
+    await source.start();
+
+    expect(onReady).toHaveBeenCalled();
+    expect(source.pushesFrames).toBe(false);
+    expect(source.getFrame()).toEqual({ image: canvas, width: 40, height: 30 });
+
+    source.stop();
+    expect(source.isReady).toBe(false);
+    expect(source.getFrame()).toBeNull();
+  });
+
+  it('should push a frame on every invalidate', async () => {
+    const canvas = document.createElement('canvas');
+    const source = new CanvasSource(canvas, true);
+    const onFrame = jest.fn();
+    const unsubscribe = source.on('frame', onFrame);
+
+    await source.start();
+    canvas.width = 64;
+    source.invalidate();
+
+    expect(onFrame).toHaveBeenCalledTimes(2);
+    expect(source.width).toBe(64);
+
+    unsubscribe();
+    source.invalidate();
+    expect(onFrame).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('ImageSource', () => {
+  const OriginalImage = global.Image;
+
+  beforeEach(() => {
+    // jsdom does not decode images
+    global.Image = class {
+      onload: (() => void) | null = null;
+      onerror: (() => void) | null = null;
+      naturalWidth = 8;
+      naturalHeight = 6;
+      set src(value: string) {
+        setTimeout(() => (value.includes('broken') ? this.onerror?.() : this.onload?.()), 0);
+      }
+    } as unknown as typeof Image;
+  });
+
+  afterEach(() => {
+    global.Image = OriginalImage;
+  });
+
+  it('should push the image once loaded', async () => {
+    const source = new ImageSource('photo.png');
+    const onFrame = jest.fn();
+    source.on('frame', onFrame);
+
+    await source.start();
+
+    expect(source.pushesFrames).toBe(true);
+    expect(onFrame).toHaveBeenCalledTimes(1);
+    expect(source.getFrame()).toMatchObject({ width: 8, height: 6 });
+  });
+
+  it('should report images that fail to load', async () => {
+    const source = new ImageSource('broken.png');
+    const onError = jest.fn();
+    source.on('error', onError);
+
+    await expect(source.start()).rejects.toThrow('Could not load image');
+    expect(onError).toHaveBeenCalledWith(new Error('Could not load image'));
+    expect(source.getFrame()).toBeNull();
+  });
+
+  it('should ignore an image that loads after stop', async () => {
+    const source = new ImageSource('photo.png');
+    const onReady = jest.fn();
+    const onFrame = jest.fn();
+    source.on('ready', onReady);
+    source.on('frame', onFrame);
+
+    const starting = source.start();
+    source.stop();
+    await starting;
+
+    expect(onReady).not.toHaveBeenCalled();
+    expect(onFrame).not.toHaveBeenCalled();
+    expect(source.getFrame()).toBeNull();
+  });
+});
+
+describe('WebcamSource', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should play the camera stream and stop its tracks', async () => {
+    const stop = jest.fn();
+    const stream = { getTracks: () => [{ stop }] } as unknown as MediaStream;
+    const getUserMedia = jest.spyOn(navigator.mediaDevices, 'getUserMedia').mockResolvedValue(stream);
+    const video = createVideo(640, 480);
+    const source = new WebcamSource(video, { width: 320 });
+
+    await source.start();
+
+    expect(getUserMedia).toHaveBeenCalledWith({ video: { width: 320 } });
+    expect(video.srcObject).toBe(stream);
+    expect(source.getFrame()).toEqual({ image: video, width: 640, height: 480 });
+
+    source.stop();
+    expect(stop).toHaveBeenCalled();
+    expect(video.srcObject).toBeNull();
+    expect(source.getFrame()).toBeNull();
+  });
+
+  it('should release a stream that arrives after stop', async () => {
+    const stop = jest.fn();
+    const stream = { getTracks: () => [{ stop }] } as unknown as MediaStream;
+    let resolveStream: (stream: MediaStream) => void = () => {};
+    jest.spyOn(navigator.mediaDevices, 'getUserMedia').mockReturnValue(new Promise(resolve => {
+      resolveStream = resolve;
+    }));
+    const video = createVideo(640, 480);
+    const source = new WebcamSource(video);
+    const onReady = jest.fn();
+    source.on('ready', onReady);
+
+    const starting = source.start();
+    source.stop();
+    resolveStream(stream);
+    await starting;
+
+    expect(stop).toHaveBeenCalled();
+    expect(video.srcObject).not.toBe(stream);
+    expect(source.isReady).toBe(false);
+    expect(onReady).not.toHaveBeenCalled();
+  });
+
+  it('should keep only the latest of overlapping starts', async () => {
+    const resolvers: ((stream: MediaStream) => void)[] = [];
+    jest.spyOn(navigator.mediaDevices, 'getUserMedia').mockImplementation(() => new Promise(resolve => {
+      resolvers.push(resolve);
+    }));
+    const streams = [jest.fn(), jest.fn()].map(stop => ({ stop, stream: { getTracks: () => [{ stop }] } as unknown as MediaStream }));
+    const video = createVideo(640, 480);
+    const source = new WebcamSource(video);
+
+    const first = source.start();
+    const second = source.start();
+    resolvers[1](streams[1].stream);
+    resolvers[0](streams[0].stream);
+    await Promise.all([first, second]);
+
+    expect(streams[0].stop).toHaveBeenCalled();
+    expect(streams[1].stop).not.toHaveBeenCalled();
+    expect(video.srcObject).toBe(streams[1].stream);
+    expect(source.isReady).toBe(true);
+  });
+
+  it('should report denied camera access', async () => {
+    jest.spyOn(navigator.mediaDevices, 'getUserMedia').mockRejectedValue(new Error('Permission denied'));
+    const source = new WebcamSource(createVideo(0, 0));
+    const onError = jest.fn();
+    source.on('error', onError);
+
+    await expect(source.start()).rejects.toThrow('Permission denied');
+    expect(onError).toHaveBeenCalled();
+    expect(source.isReady).toBe(false);
+  });
+});
+
+describe('ScreenCaptureSource', () => {
+  const mediaDevices = navigator.mediaDevices as unknown as Record<string, unknown>;
+
+  // Capture stream whose track can be ended like the browser's "Stop sharing" button does
+  const createCapture = () => {
+    const track = new EventTarget() as EventTarget & { stop: jest.Mock };
+    track.stop = jest.fn();
+    const stream = { getTracks: () => [track], getVideoTracks: () => [track] } as unknown as MediaStream;
+    mediaDevices.getDisplayMedia = jest.fn().mockResolvedValue(stream);
+    return { track, stream };
+  };
+
+  afterEach(() => {
+    delete mediaDevices.getDisplayMedia;
+  });
+
+  it('should play the shared screen', async () => {
+    const { stream } = createCapture();
+    const video = createVideo(1920, 1080);
+    const source = new ScreenCaptureSource(video);
+
+    await source.start();
+
+    expect(mediaDevices.getDisplayMedia).toHaveBeenCalledWith({ video: true, audio: false });
+    expect(video.srcObject).toBe(stream);
+    expect(source.kind).toBe('screen');
+    expect(source.getFrame()).toEqual({ image: video, x: 0, y: 0, width: 1920, height: 1080 });
+  });
+
+  it('should convert only the crop region', async () => {
+    createCapture();
+    const source = new ScreenCaptureSource(createVideo(1920, 1080), { x: 0.5, y: 0.25, width: 0.5, height: 0.5 });
+    const onReady = jest.fn();
+    source.on('ready', onReady);
+
+    await source.start();
+    expect(source.getFrame()).toMatchObject({ x: 960, y: 270, width: 960, height: 540 });
+    expect(source.width).toBe(960);
+
+    source.setRegion({ x: 0, y: 0, width: 0.25, height: 1 });
+    expect(source.getFrame()).toMatchObject({ x: 0, y: 0, width: 480, height: 1080 });
+    expect(source.width).toBe(480);
+    expect(onReady).toHaveBeenCalledTimes(2);
+  });
+
+  it('should emit ended when sharing is stopped from the browser', async () => {
+    const { track } = createCapture();
+    const video = createVideo(800, 600);
+    const source = new ScreenCaptureSource(video);
+    const onEnded = jest.fn();
+    source.on('ended', onEnded);
+
+    await source.start();
+    track.dispatchEvent(new Event('ended'));
+
+    expect(onEnded).toHaveBeenCalledTimes(1);
+    expect(source.isReady).toBe(false);
+    expect(video.srcObject).toBeNull();
+    expect(source.getFrame()).toBeNull();
+  });
+
+  it('should not emit ended when stopped by the page', async () => {
+    const { track } = createCapture();
+    const source = new ScreenCaptureSource(createVideo(800, 600));
+    const onEnded = jest.fn();
+    source.on('ended', onEnded);
+
+    await source.start();
+    source.stop();
+    track.dispatchEvent(new Event('ended'));
+
+    expect(track.stop).toHaveBeenCalled();
+    expect(onEnded).not.toHaveBeenCalled();
+  });
+
+  it('should release a capture that arrives after stop', async () => {
+    const { track, stream } = createCapture();
+    let resolveStream: (stream: MediaStream) => void = () => {};
+    mediaDevices.getDisplayMedia = jest.fn(() => new Promise(resolve => {
+      resolveStream = resolve;
+    }));
+    const video = createVideo(800, 600);
+    const source = new ScreenCaptureSource(video);
+
+    const starting = source.start();
+    source.stop();
+    resolveStream(stream);
+    await starting;
+
+    expect(track.stop).toHaveBeenCalled();
+    expect(video.srcObject).not.toBe(stream);
+    expect(source.isReady).toBe(false);
+  });
+
+  it('should report browsers without screen capture', async () => {
+    const source = new ScreenCaptureSource(createVideo(0, 0));
+    const onError = jest.fn();
+    source.on('error', onError);
+
+    await expect(source.start()).rejects.toThrow('Screen capture is not supported in this browser');
+    expect(onError).toHaveBeenCalled();
+  });
+});
+
+describe('normalizeRegion', () => {
+  it('should keep regions inside the frame', () => {
+    const region = normalizeRegion({ x: 0.75, y: -1, width: 0.5, height: 2 });
+    expect(region).toEqual({ x: 0.75, y: 0, width: 0.25, height: 1 });
+  });
+
+  it('should give regions a minimum size', () => {
+    const region = normalizeRegion({ x: 1, y: 0.5, width: 0, height: NaN });
+    expect(region.x).toBe(0.95);
+    expect(region.width).toBeCloseTo(0.05);
+    expect(region.height).toBe(0.05);
+  });
+});
+
+describe('VideoFileSource', () => {
+  it('should play the file and release it when stopped', async () => {
+    const video = createVideo(1280, 720);
+    const file = new File(['data'], 'clip.webm', { type: 'video/webm' });
+    const source = new VideoFileSource(video, file);
+
+    await source.start();
+
+    expect(source.name).toBe('clip.webm');
+    expect(video.play).toHaveBeenCalled();
+    expect(source.getFrame()).toMatchObject({ width: 1280, height: 720 });
+
+    source.stop();
+    expect(video.pause).toHaveBeenCalled();
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('mock-url');
+    expect(source.getFrame()).toBeNull();
+  });
+
+  it('should stop waiting for metadata when stopped while loading', async () => {
+    // No size yet, so start() waits for the metadata
+    const video = createVideo(0, 0);
+    const removeListener = jest.spyOn(video, 'removeEventListener');
+    const source = new VideoFileSource(video, new File(['data'], 'clip.webm', { type: 'video/webm' }));
+    const onReady = jest.fn();
+    const onError = jest.fn();
+    source.on('ready', onReady);
+    source.on('error', onError);
+
+    const starting = source.start();
+    source.stop();
+    // Sent by the browser when stop() clears the element
+    video.dispatchEvent(new Event('emptied'));
+    await starting;
+
+    expect(removeListener).toHaveBeenCalledWith('loadedmetadata', expect.any(Function));
+    expect(video.play).not.toHaveBeenCalled();
+    expect(onReady).not.toHaveBeenCalled();
+    expect(onError).not.toHaveBeenCalled();
+  });
+});
+
+describe('TestPatternSource', () => {
+  let putImageData: jest.Mock;
+
+  beforeEach(() => {
+    // The shared canvas mock has no pixel storage
+    putImageData = jest.fn();
+    jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(() => ({
+      createImageData: (width: number, height: number) => ({ data: new Uint8ClampedArray(width * height * 4), width, height }),
+      putImageData
+    }) as unknown as CanvasRenderingContext2D);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should push still patterns once', async () => {
+    const source = new TestPatternSource('bars', 70, 40);
+    const onFrame = jest.fn();
+    source.on('frame', onFrame);
+
+    await source.start();
+
+    expect(source.kind).toBe('pattern');
+    expect(source.pushesFrames).toBe(true);
+    expect(onFrame).toHaveBeenCalledTimes(1);
+    expect(source.getFrame()).toMatchObject({ width: 70, height: 40 });
+    expect(source.getFrame()?.image).toBeInstanceOf(HTMLCanvasElement);
+    expect(putImageData).toHaveBeenCalledTimes(1);
+  });
+
+  it('should redraw animated patterns at the clock time', async () => {
+    let now = 1000;
+    const source = new TestPatternSource('circle', 32, 32, () => now);
+
+    await source.start();
+    expect(source.pushesFrames).toBe(false);
+
+    now = 2000;
+    source.getFrame();
+    now = 3000;
+    source.getFrame();
+
+    expect(putImageData).toHaveBeenCalledTimes(3);
+    const [first, , last] = putImageData.mock.calls.map(([imageData]) => imageData.data);
+    expect(last).not.toEqual(first);
+  });
+
+  it('should stop producing frames when stopped', async () => {
+    const source = new TestPatternSource('noise', 16, 16);
+    await source.start();
+    source.stop();
+
+    expect(source.isReady).toBe(false);
+    expect(source.getFrame()).toBeNull();
+  });
+});
@@ -0,0 +1,594 @@
+/**
+ * Frame sources: the inputs the conversion loop reads from
+ */
+
+import { createCanvas } from './glyphs';
+import { TEST_PATTERNS, drawTestPattern } from './testPatterns';
+import type { CropRegion, FrameSourceKind, SourceFrame, TestPatternName } from '../types/ascii';
+
+/**
+ * Events emitted by frame sources
+ */
+export interface FrameSourceEvents {
+  /** The source has frames and knows its size */
+  ready: () => void;
+  /** A new frame is available, emitted by sources that push frames */
+  frame: () => void;
+  /** The input went away on its own, e.g. screen sharing was ended from the browser */
+  ended: () => void;
+  error: (error: Error) => void;
+}
+
+/**
+ * Input for the conversion loop. Pulling sources are read on every tick
+ * with getFrame(); pushing sources emit 'frame' when their content
+ * changes, so an unchanged still image is not converted over and over.
+ */
+export interface FrameSource {
+  readonly kind: FrameSourceKind;
+  /** Frame size in pixels, 0 until ready */
+  readonly width: number;
+  readonly height: number;
+  readonly isReady: boolean;
+  /** Whether new frames are announced with 'frame' events instead of pulled */
+  readonly pushesFrames: boolean;
+  /**
+   * Acquire the input; resolves once the source is ready, or without it
+   * if stop() or another start() cancelled this one
+   */
+  start(): Promise<void>;
+  /**
+   * Release the input. A stopped source can be started again.
+   */
+  stop(): void;
+  /**
+   * @returns The current frame, null while not ready
+   */
+  getFrame(): SourceFrame | null;
+  /**
+   * @returns Function that removes the listener
+   */
+  on<E extends keyof FrameSourceEvents>(event: E, listener: FrameSourceEvents[E]): () => void;
+}
+
+/**
+ * Listener bookkeeping and ready/error state shared by the sources
+ */
+export abstract class BaseFrameSource implements FrameSource {
+  abstract readonly kind: FrameSourceKind;
+  readonly pushesFrames: boolean = false;
+  width = 0;
+  height = 0;
+  isReady = false;
+  /** Advanced by every stop(), so a start that resolves later knows it was cancelled */
+  protected generation = 0;
+  private listeners: { [E in keyof FrameSourceEvents]: Set<FrameSourceEvents[E]> } = {
+    ready: new Set(),
+    frame: new Set(),
+    ended: new Set(),
+    error: new Set()
+  };
+
+  abstract start(): Promise<void>;
+  abstract stop(): void;
+  abstract getFrame(): SourceFrame | null;
+
+  on<E extends keyof FrameSourceEvents>(event: E, listener: FrameSourceEvents[E]): () => void {
+    this.listeners[event].add(listener);
+    return () => {
+      this.listeners[event].delete(listener);
+    };
+  }
+
+  protected emit<E extends keyof FrameSourceEvents>(event: E, ...args: Parameters<FrameSourceEvents[E]>): void {
+    this.listeners[event].forEach(listener => (listener as (...values: unknown[]) => void)(...args));
+  }
+
+  /**
+   * Record the frame size and announce readiness
+   */
+  protected markReady(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
+    this.isReady = true;
+    this.emit('ready');
+  }
+
+  protected markStopped(): void {
+    this.isReady = false;
+    this.generation++;
+  }
+
+  /**
+   * Report an error to listeners and reject start()
+   */
+  protected fail(error: unknown): never {
+    const reason = error instanceof Error ? error : new Error(String(error));
+    this.isReady = false;
+    this.emit('error', reason);
+    throw reason;
+  }
+}
+
+/**
+ * Wait until a video element knows its size. Rejects when the element
+ * fails to load or is emptied, e.g. by stop() clearing its source.
+ */
+function waitForMetadata(video: HTMLVideoElement): Promise<void> {
+  if (video.readyState >= 1 && video.videoWidth > 0) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener('loadedmetadata', onLoaded);
+      video.removeEventListener('error', onError);
+      video.removeEventListener('emptied', onEmptied);
+    };
+    const onLoaded = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error(video.error?.message || 'Could not load video'));
+    };
+    // Also fired when a new source replaces the old one; only a cleared element ends the wait
+    const onEmptied = () => {
+      if (video.srcObject || video.getAttribute('src')) return;
+      cleanup();
+      reject(new Error('Video was unloaded'));
+    };
+    video.addEventListener('loadedmetadata', onLoaded);
+    video.addEventListener('error', onError);
+    video.addEventListener('emptied', onEmptied);
+  });
+}
+
+/**
+ * Current frame of a video element once it has decoded one
+ */
+function videoFrame(video: HTMLVideoElement): SourceFrame | null {
+  if (video.readyState < 2 || video.videoWidth === 0 || video.videoHeight === 0) {
+    return null;
+  }
+  return { image: video, width: video.videoWidth, height: video.videoHeight };
+}
+
+/**
+ * Camera stream played through a video element. The element should stay
+ * in the page: some browsers stop decoding detached or offscreen video.
+ */
+export class WebcamSource extends BaseFrameSource {
+  readonly kind = 'webcam';
+  private video: HTMLVideoElement;
+  private constraints: MediaTrackConstraints;
+  private stream: MediaStream | null = null;
+
+  /**
+   * @param video Element the stream plays in
+   * @param constraints Requested camera resolution and other track constraints
+   */
+  constructor(video: HTMLVideoElement, constraints: MediaTrackConstraints = { width: 640, height: 480 }) {
+    super();
+    this.video = video;
+    this.constraints = constraints;
+  }
+
+  /**
+   * The camera stream, null while stopped
+   */
+  get mediaStream(): MediaStream | null {
+    return this.stream;
+  }
+
+  /**
+   * Camera the stream comes from, null while stopped or if unknown
+   */
+  get deviceId(): string | null {
+    return this.stream?.getVideoTracks?.()[0]?.getSettings?.().deviceId ?? null;
+  }
+
+  async start(): Promise<void> {
+    this.stop();
+    const generation = this.generation;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: this.constraints });
+      // Stopped while the permission prompt was open: release the late stream
+      if (generation !== this.generation) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      this.stream = stream;
+      this.video.srcObject = stream;
+      this.video.muted = true;
+
+      await waitForMetadata(this.video);
+      await this.video.play();
+      if (generation !== this.generation) return;
+      this.markReady(this.video.videoWidth, this.video.videoHeight);
+    } catch (error) {
+      if (generation !== this.generation) return;
+      this.fail(error);
+    }
+  }
+
+  stop(): void {
+    this.stream?.getTracks().forEach(track => track.stop());
+    if (this.stream && this.video.srcObject === this.stream) {
+      this.video.srcObject = null;
+    }
+    this.stream = null;
+    this.markStopped();
+  }
+
+  getFrame(): SourceFrame | null {
+    return this.stream ? videoFrame(this.video) : null;
+  }
+}
+
+/**
+ * Whole capture, the default region of a screen capture
+ */
+export const FULL_REGION: CropRegion = { x: 0, y: 0, width: 1, height: 1 };
+
+/**
+ * Clamp a region to the frame and give it a minimum size
+ * @param region Region as fractions of the frame
+ * @returns Region that lies within the frame
+ */
+export function normalizeRegion(region: CropRegion): CropRegion {
+  const clamp = (value: number) => Math.min(1, Math.max(0, Number.isFinite(value) ? value : 0));
+  const x = Math.min(clamp(region.x), 0.95);
+  const y = Math.min(clamp(region.y), 0.95);
+  return {
+    x,
+    y,
+    width: Math.max(0.05, Math.min(clamp(region.width), 1 - x)),
+    height: Math.max(0.05, Math.min(clamp(region.height), 1 - y))
+  };
+}
+
+/**
+ * Shared screen, window or tab played through a video element. The
+ * browser asks the user what to share; ending the share from the browser
+ * UI emits 'ended'. A crop region narrows conversion to part of the
+ * capture, so a single window area can fill the grid.
+ */
+export class ScreenCaptureSource extends BaseFrameSource {
+  readonly kind = 'screen';
+  private video: HTMLVideoElement;
+  private stream: MediaStream | null = null;
+  private cropRegion: CropRegion = FULL_REGION;
+
+  /**
+   * @param video Element the capture plays in
+   * @param region Part of the capture to convert
+   */
+  constructor(video: HTMLVideoElement, region: CropRegion = FULL_REGION) {
+    super();
+    this.video = video;
+    this.cropRegion = normalizeRegion(region);
+  }
+
+  /**
+   * Part of the capture being converted
+   */
+  get region(): CropRegion {
+    return this.cropRegion;
+  }
+
+  /**
+   * Convert only part of the capture from the next frame on
+   * @param region Region as fractions of the capture size
+   */
+  setRegion(region: CropRegion): void {
+    this.cropRegion = normalizeRegion(region);
+    if (this.isReady) {
+      const frame = this.getFrame();
+      if (frame) this.markReady(frame.width, frame.height);
+    }
+  }
+
+  async start(): Promise<void> {
+    this.stop();
+    const generation = this.generation;
+    try {
+      if (!navigator.mediaDevices?.getDisplayMedia) {
+        throw new Error('Screen capture is not supported in this browser');
+      }
+      const stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+      // Stopped while the browser picker was open: release the late stream
+      if (generation !== this.generation) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      this.stream = stream;
+      stream.getVideoTracks().forEach(track => track.addEventListener('ended', this.handleEnded));
+      this.video.srcObject = stream;
+      this.video.muted = true;
+
+      await waitForMetadata(this.video);
+      await this.video.play();
+      if (generation !== this.generation) return;
+      const frame = this.getFrame();
+      this.markReady(frame?.width ?? this.video.videoWidth, frame?.height ?? this.video.videoHeight);
+    } catch (error) {
+      if (generation !== this.generation) return;
+      this.stop();
+      this.fail(error);
+    }
+  }
+
+  stop(): void {
+    this.stream?.getTracks().forEach(track => {
+      track.removeEventListener('ended', this.handleEnded);
+      track.stop();
+    });
+    if (this.stream && this.video.srcObject === this.stream) {
+      this.video.srcObject = null;
+    }
+    this.stream = null;
+    this.markStopped();
+  }
+
+  getFrame(): SourceFrame | null {
+    const frame = this.stream ? videoFrame(this.video) : null;
+    if (!frame) return null;
+
+    const region = this.cropRegion;
+    const x = Math.round(region.x * frame.width);
+    const y = Math.round(region.y * frame.height);
+    return {
+      image: frame.image,
+      x,
+      y,
+      width: Math.max(1, Math.min(frame.width - x, Math.round(region.width * frame.width))),
+      height: Math.max(1, Math.min(frame.height - y, Math.round(region.height * frame.height)))
+    };
+  }
+
+  // The user stopped sharing from the browser's own controls
+  private handleEnded = (): void => {
+    if (!this.stream) return;
+    this.stop();
+    this.emit('ended');
+  };
+}
+
+/**
+ * Local video file played through a video element. Transport (play,
+ * pause, seek, loop) goes through the element itself.
+ */
+export class VideoFileSource extends BaseFrameSource {
+  readonly kind = 'video';
+  readonly video: HTMLVideoElement;
+  readonly name: string;
+  private file: Blob;
+  private url: string | null = null;
+
+  /**
+   * @param video Element the file plays in
+   * @param file Video file
+   */
+  constructor(video: HTMLVideoElement, file: File | Blob) {
+    super();
+    this.video = video;
+    this.file = file;
+    this.name = file instanceof File ? file.name : 'video';
+  }
+
+  async start(): Promise<void> {
+    this.stop();
+    const generation = this.generation;
+    try {
+      this.url = URL.createObjectURL(this.file);
+      this.video.srcObject = null;
+      this.video.src = this.url;
+      this.video.muted = true;
+
+      await waitForMetadata(this.video);
+      if (generation !== this.generation) return;
+      this.markReady(this.video.videoWidth, this.video.videoHeight);
+      await this.video.play();
+    } catch (error) {
+      // Stopping unloads the element, which also ends a pending wait or play()
+      if (generation !== this.generation) return;
+      this.fail(error);
+    }
+  }
+
+  stop(): void {
+    if (this.url) {
+      this.video.pause();
+      this.video.removeAttribute('src');
+      this.video.load();
+      URL.revokeObjectURL(this.url);
+      this.url = null;
+    }
+    this.markStopped();
+  }
+
+  getFrame(): SourceFrame | null {
+    return this.url ? videoFrame(this.video) : null;
+  }
+}
+
+/**
+ * Still image from a file or URL, converted once and again only when
+ * the settings change
+ */
+export class ImageSource extends BaseFrameSource {
+  readonly kind = 'image';
+  readonly pushesFrames = true;
+  private input: Blob | string;
+  private image: HTMLImageElement | null = null;
+  private url: string | null = null;
+
+  /**
+   * @param input Image file or URL
+   */
+  constructor(input: Blob | string) {
+    super();
+    this.input = input;
+  }
+
+  async start(): Promise<void> {
+    this.stop();
+    const generation = this.generation;
+    const image = new Image();
+    const url = typeof this.input === 'string' ? this.input : URL.createObjectURL(this.input);
+    if (typeof this.input !== 'string') this.url = url;
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        image.onload = () => resolve();
+        image.onerror = () => reject(new Error('Could not load image'));
+        image.src = url;
+      });
+      // Stopped while loading; stop() already released the URL
+      if (generation !== this.generation) return;
+      this.image = image;
+      this.markReady(image.naturalWidth || image.width, image.naturalHeight || image.height);
+      this.emit('frame');
+    } catch (error) {
+      if (generation !== this.generation) return;
+      this.fail(error);
+    }
+  }
+
+  stop(): void {
+    if (this.url) {
+      URL.revokeObjectURL(this.url);
+      this.url = null;
+    }
+    this.image = null;
+    this.markStopped();
+  }
+
+  getFrame(): SourceFrame | null {
+    return this.image ? { image: this.image, width: this.width, height: this.height } : null;
+  }
+}
+
+/**
+ * Canvas drawn by the page, e.g. generated graphics. Pulled on every tick
+ * unless created as pushing, in which case the owner calls invalidate()
+ * after drawing.
+ */
+export class CanvasSource extends BaseFrameSource {
+  readonly kind = 'canvas';
+  readonly pushesFrames: boolean;
+  private canvas: HTMLCanvasElement | OffscreenCanvas;
+  private running = false;
+
+  /**
+   * @param canvas Canvas to read
+   * @param pushesFrames Convert only after invalidate() instead of every tick
+   */
+  constructor(canvas: HTMLCanvasElement | OffscreenCanvas, pushesFrames: boolean = false) {
+    super();
+    this.canvas = canvas;
+    this.pushesFrames = pushesFrames;
+  }
+
+  async start(): Promise<void> {
+    this.running = true;
+    this.markReady(this.canvas.width, this.canvas.height);
+    this.emit('frame');
+  }
+
+  stop(): void {
+    this.running = false;
+    this.markStopped();
+  }
+
+  /**
+   * Announce that the canvas was redrawn
+   */
+  invalidate(): void {
+    if (!this.running) return;
+    this.width = this.canvas.width;
+    this.height = this.canvas.height;
+    this.emit('frame');
+  }
+
+  getFrame(): SourceFrame | null {
+    if (!this.running || this.canvas.width === 0 || this.canvas.height === 0) {
+      return null;
+    }
+    return { image: this.canvas, width: this.canvas.width, height: this.canvas.height };
+  }
+}
+
+/**
+ * Generated test pattern drawn to an internal canvas, for working without
+ * a camera. Still patterns are drawn once and pushed; animated ones are
+ * redrawn on every pull at the clock's current time.
+ */
+export class TestPatternSource extends BaseFrameSource {
+  readonly kind = 'pattern';
+  readonly pushesFrames: boolean;
+  readonly pattern: TestPatternName;
+  private size: { width: number; height: number };
+  private clock: () => number;
+  private canvas: HTMLCanvasElement | OffscreenCanvas | null = null;
+  private ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null = null;
+  private startTime = 0;
+
+  /**
+   * @param pattern Pattern to generate
+   * @param width Frame width
+   * @param height Frame height
+   * @param clock Current time in milliseconds; a fixed clock gives identical frames
+   */
+  constructor(
+    pattern: TestPatternName,
+    width: number = 640,
+    height: number = 480,
+    clock: () => number = () => performance.now()
+  ) {
+    super();
+    this.pattern = pattern;
+    this.size = { width, height };
+    this.clock = clock;
+    this.pushesFrames = !TEST_PATTERNS.some(entry => entry.name === pattern && entry.animated);
+  }
+
+  async start(): Promise<void> {
+    this.stop();
+    try {
+      const canvas = createCanvas(this.size.width, this.size.height);
+      const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+      if (!ctx) {
+        throw new Error('Could not create canvas context');
+      }
+      this.canvas = canvas;
+      this.ctx = ctx;
+      this.startTime = this.clock();
+      this.draw();
+      this.markReady(this.size.width, this.size.height);
+      if (this.pushesFrames) this.emit('frame');
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+
+  stop(): void {
+    this.canvas = null;
+    this.ctx = null;
+    this.markStopped();
+  }
+
+  getFrame(): SourceFrame | null {
+    if (!this.canvas) return null;
+    if (!this.pushesFrames) this.draw();
+    return { image: this.canvas, width: this.size.width, height: this.size.height };
+  }
+
+  private draw(): void {
+    if (!this.ctx) return;
+    const imageData = this.ctx.createImageData(this.size.width, this.size.height);
+    drawTestPattern(this.pattern, imageData.data, this.size.width, this.size.height, this.clock() - this.startTime);
+    this.ctx.putImageData(imageData, 0, 0);
+  }
+}
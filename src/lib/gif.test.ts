@@ -0,0 +1,161 @@
+import { buildGifPalette, encodeGif, lzwEncode, medianCut, recordingToGif, selectGifFrames } from './gif';
+import { DEFAULT_SNAPSHOT_STYLE } from './export';
+import type { AsciiFrame, ConversionSettings } from '../types/ascii';
+
+const settings: ConversionSettings = { charset: 'simple', invert: false, colorMode: true };
+
+const createFrame = (lines: string[], colors?: number[]): AsciiFrame => ({
+  cols: lines[0].length,
+  rows: lines.length,
+  chars: lines.map(line => line.split('')),
+  luminance: new Uint8Array(lines.length * lines[0].length),
+  colors: colors && new Uint8ClampedArray(colors),
+  settings,
+  timestamp: 0
+});
+
+// Reference GIF LZW decoder
+const lzwDecode = (data: Uint8Array, minCodeSize: number): number[] => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  let position = 0;
+
+  const reset = () => {
+    table = Array.from({ length: clearCode + 2 }, (_, index) => [index]);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  reset();
+
+  while (position + codeSize <= data.length * 8) {
+    let code = 0;
+    for (let bit = 0; bit < codeSize; bit++, position++) {
+      code |= ((data[position >> 3] >> (position & 7)) & 1) << bit;
+    }
+
+    if (code === clearCode) {
+      reset();
+      continue;
+    }
+    if (code === endCode) break;
+
+    const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]];
+    output.push(...entry);
+    if (previous) {
+      table.push([...previous, entry[0]]);
+      if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    previous = entry;
+  }
+
+  return output;
+};
+
+describe('lzwEncode', () => {
+  it('should round-trip through a reference decoder', () => {
+    const indices = new Uint8Array([0, 1, 1, 1, 1, 2, 3, 0, 1, 1, 1, 1, 2, 3, 3, 3]);
+
+    expect(lzwDecode(lzwEncode(indices, 2), 2)).toEqual(Array.from(indices));
+  });
+
+  it('should restart the dictionary once it is full', () => {
+    // Pseudo-random data fills the 4096-entry table several times
+    let seed = 1;
+    const indices = new Uint8Array(40000).map(() => {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+      return (seed >> 16) & 0xff;
+    });
+
+    expect(lzwDecode(lzwEncode(indices, 8), 8)).toEqual(Array.from(indices));
+  });
+
+  it('should compress repetitive images', () => {
+    expect(lzwEncode(new Uint8Array(10000), 2).length).toBeLessThan(300);
+  });
+});
+
+describe('medianCut', () => {
+  it('should keep colors exact when they fit', () => {
+    const palette = medianCut(new Map([[0xff0000, 5], [0x0000ff, 1]]), 4);
+
+    expect(Array.from(palette).sort()).toEqual([0, 0, 0, 0, 255, 255].sort());
+  });
+
+  it('should limit the palette size', () => {
+    const histogram = new Map(Array.from({ length: 1000 }, (_, index) => [index * 16000, 1]));
+
+    expect(medianCut(histogram, 16).length).toBe(16 * 3);
+  });
+});
+
+describe('buildGifPalette', () => {
+  it('should cover the theme colors and glyph edge shades', () => {
+    const style = { ...DEFAULT_SNAPSHOT_STYLE, foreground: '#fff', background: '#000' };
+    const palette = buildGifPalette([createFrame(['a '])], { style });
+    const colors = Array.from({ length: palette.length / 3 }, (_, index) => palette[index * 3]);
+
+    expect(colors.sort((a, b) => a - b)).toEqual([0, 64, 128, 191, 255]);
+  });
+});
+
+describe('selectGifFrames', () => {
+  const recorded = [0, 0.05, 0.1, 0.2, 0.33].map(time => ({ time, frame: createFrame(['a']) }));
+
+  it('should drop frames above the frame rate and take delays from recorded times', () => {
+    const frames = selectGifFrames(recorded, 10);
+
+    expect(frames.map(({ delay }) => delay)).toEqual([10, 10, 13, 10]);
+  });
+
+  it('should stop at the frame limit', () => {
+    expect(selectGifFrames(recorded, 60, 2)).toHaveLength(2);
+  });
+});
+
+describe('encodeGif', () => {
+  it('should write a looping GIF89a with a padded global palette', () => {
+    const palette = new Uint8Array([0, 0, 0, 255, 255, 255, 255, 0, 0]);
+    const bytes = encodeGif(2, 1, palette, [{ indices: new Uint8Array([0, 1]), delay: 7 }]);
+    const text = String.fromCharCode(...bytes);
+
+    expect(text.startsWith('GIF89a')).toBe(true);
+    // 2×1 image with a four-entry color table
+    expect(Array.from(bytes.slice(6, 11))).toEqual([2, 0, 1, 0, 0xf1]);
+    expect(Array.from(bytes.slice(13, 25))).toEqual([0, 0, 0, 255, 255, 255, 255, 0, 0, 0, 0, 0]);
+    expect(text).toContain('NETSCAPE2.0');
+    // Graphic control extension with the delay
+    expect(text).toContain('\x21\xf9\x04\x04\x07\x00');
+    expect(bytes[bytes.length - 1]).toBe(0x3b);
+  });
+});
+
+describe('recordingToGif', () => {
+  it('should report progress up to completion', async () => {
+    const progress: number[] = [];
+    const recording = {
+      cols: 2,
+      rows: 1,
+      startedAt: 0,
+      frames: [0, 0.5].map(time => ({ time, frame: createFrame(['ab']) }))
+    };
+
+    const blob = await recordingToGif(
+      recording,
+      { style: DEFAULT_SNAPSHOT_STYLE, scale: 1, fps: 10, maxWidth: 960 },
+      value => progress.push(value)
+    );
+
+    expect(blob.type).toBe('image/gif');
+    expect(progress).toEqual([1 / 3, 2 / 3, 1]);
+  });
+
+  it('should reject empty recordings', async () => {
+    await expect(
+      recordingToGif({ cols: 0, rows: 0, startedAt: 0, frames: [] }, { style: DEFAULT_SNAPSHOT_STYLE, scale: 1, fps: 10, maxWidth: 960 })
+    ).rejects.toThrow('Recording has no frames');
+  });
+});
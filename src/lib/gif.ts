@@ -0,0 +1,447 @@
+/**
+ * Animated GIF encoding of recorded ASCII frames
+ */
+
+import { measureRasterCell, rasterizeFrame } from './rasterize';
+import type { AsciiFrame, AsciiRecording, GifOptions, RecordedFrame } from '../types/ascii';
+
+/**
+ * Frames encoded per GIF, later frames are dropped
+ */
+export const GIF_MAX_FRAMES = 600;
+
+/**
+ * Largest LZW code, codes are at most 12 bits wide
+ */
+const MAX_LZW_CODE = 4096;
+
+/**
+ * GIF delays are in hundredths of a second and browsers slow down anything
+ * below two
+ */
+const MIN_DELAY_CS = 2;
+
+/**
+ * Default GIF export settings
+ */
+export const DEFAULT_GIF_OPTIONS: Omit<GifOptions, 'style'> = {
+  scale: 1,
+  fps: 10,
+  maxWidth: 960
+};
+
+/**
+ * A frame selected for the GIF with its display time
+ */
+export interface GifFrame {
+  frame: AsciiFrame;
+  /** Display time in hundredths of a second */
+  delay: number;
+}
+
+/**
+ * Growable byte buffer
+ */
+class ByteWriter {
+  private bytes = new Uint8Array(4096);
+  private length = 0;
+
+  byte(value: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = value;
+  }
+
+  word(value: number): void {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  write(values: ArrayLike<number>): void {
+    for (let i = 0; i < values.length; i++) {
+      this.byte(values[i]);
+    }
+  }
+
+  ascii(text: string): void {
+    for (let i = 0; i < text.length; i++) {
+      this.byte(text.charCodeAt(i));
+    }
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/**
+ * Compress palette indices with GIF's variable-width LZW
+ * @param indices Palette index per pixel
+ * @param minCodeSize Bits per index, at least 2
+ * @returns Code stream packed LSB first, without sub-block framing
+ */
+export function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output = new ByteWriter();
+  // Code for (prefix code, next index), -1 where not yet assigned
+  const table = new Int16Array(MAX_LZW_CODE * 256).fill(-1);
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let buffer = 0;
+  let bits = 0;
+
+  const emit = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      output.byte(buffer & 0xff);
+      buffer >>= 8;
+      bits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0] ?? 0;
+
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = prefix * 256 + index;
+    const code = table[key];
+
+    if (code !== -1) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === MAX_LZW_CODE) {
+      // Table full: start over rather than keep coding with a stale dictionary
+      emit(clearCode);
+      table.fill(-1);
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table[key] = nextCode++;
+    }
+    prefix = index;
+  }
+
+  emit(prefix);
+  emit(endCode);
+  if (bits > 0) {
+    output.byte(buffer & 0xff);
+  }
+
+  return output.result();
+}
+
+/**
+ * Reduce weighted colors to a palette by median cut: the box with the
+ * widest channel range is split at its weighted median until there are
+ * enough boxes, then each box contributes its weighted average
+ * @param histogram Pixel count per 0xRRGGBB color
+ * @param maxColors Palette size limit
+ * @returns RGB triplets, one per palette entry
+ */
+export function medianCut(histogram: Map<number, number>, maxColors: number = 256): Uint8Array {
+  type Entry = [r: number, g: number, b: number, count: number];
+  const all: Entry[] = Array.from(histogram, ([color, count]) => [color >> 16, (color >> 8) & 0xff, color & 0xff, count]);
+  const boxes: Entry[][] = all.length > 0 ? [all] : [];
+
+  const widestChannel = (box: Entry[]): [channel: number, range: number] => {
+    let best: [number, number] = [0, 0];
+    for (let channel = 0; channel < 3; channel++) {
+      let min = 255;
+      let max = 0;
+      for (const entry of box) {
+        min = Math.min(min, entry[channel]);
+        max = Math.max(max, entry[channel]);
+      }
+      if (max - min > best[1]) best = [channel, max - min];
+    }
+    return best;
+  };
+
+  while (boxes.length < maxColors) {
+    let target = -1;
+    let targetRange = 0;
+    let targetChannel = 0;
+    boxes.forEach((box, index) => {
+      if (box.length < 2) return;
+      const [channel, range] = widestChannel(box);
+      if (range > targetRange) {
+        target = index;
+        targetRange = range;
+        targetChannel = channel;
+      }
+    });
+    if (target === -1) break;
+
+    const box = boxes[target].sort((a, b) => a[targetChannel] - b[targetChannel]);
+    const half = box.reduce((sum, entry) => sum + entry[3], 0) / 2;
+    let split = 1;
+    for (let seen = box[0][3]; split < box.length - 1 && seen < half; split++) {
+      seen += box[split][3];
+    }
+    boxes.splice(target, 1, box.slice(0, split), box.slice(split));
+  }
+
+  const palette = new Uint8Array(boxes.length * 3);
+  boxes.forEach((box, index) => {
+    const total = box.reduce((sum, entry) => sum + entry[3], 0);
+    for (let channel = 0; channel < 3; channel++) {
+      palette[index * 3 + channel] = Math.round(box.reduce((sum, entry) => sum + entry[channel] * entry[3], 0) / total);
+    }
+  });
+  return palette;
+}
+
+/**
+ * Parse a CSS hex color
+ */
+function parseHexColor(color: string): number {
+  const hex = color.replace('#', '');
+  const full = hex.length === 3 ? hex.replace(/./g, digit => digit + digit) : hex;
+  const value = parseInt(full.slice(0, 6), 16);
+  return Number.isNaN(value) ? 0 : value;
+}
+
+/**
+ * Add a color and its anti-aliasing blends toward a background
+ */
+function addBlends(histogram: Map<number, number>, color: number, background: number, count: number): void {
+  for (const [amount, weight] of [[1, 1], [0.75, 0.25], [0.5, 0.25], [0.25, 0.25]]) {
+    let blended = 0;
+    for (let shift = 16; shift >= 0; shift -= 8) {
+      const channel = ((color >> shift) & 0xff) * amount + ((background >> shift) & 0xff) * (1 - amount);
+      blended |= Math.round(channel) << shift;
+    }
+    histogram.set(blended, (histogram.get(blended) ?? 0) + count * weight);
+  }
+}
+
+/**
+ * Build one palette for all frames from their cell colors, with
+ * in-between shades for glyph edges
+ * @param frames Frames to encode
+ * @param options Style of the rasterized frames
+ * @returns RGB palette of at most 256 colors
+ */
+export function buildGifPalette(frames: AsciiFrame[], options: Pick<GifOptions, 'style'>): Uint8Array {
+  const foreground = parseHexColor(options.style.foreground);
+  const background = parseHexColor(options.style.background);
+  const histogram = new Map<number, number>([[background, 1]]);
+
+  const read = (colors: Uint8ClampedArray, cell: number) =>
+    (colors[cell * 3] << 16) | (colors[cell * 3 + 1] << 8) | colors[cell * 3 + 2];
+
+  for (const frame of frames) {
+    for (let cell = 0; cell < frame.cols * frame.rows; cell++) {
+      const cellBackground = frame.backgrounds ? read(frame.backgrounds, cell) : background;
+      const char = frame.chars[Math.floor(cell / frame.cols)]?.[cell % frame.cols] ?? ' ';
+
+      if (char.trim() === '') {
+        histogram.set(cellBackground, (histogram.get(cellBackground) ?? 0) + 1);
+      } else {
+        addBlends(histogram, frame.colors ? read(frame.colors, cell) : foreground, cellBackground, 1);
+      }
+    }
+  }
+
+  return medianCut(histogram, 256);
+}
+
+/**
+ * Map pixels to their nearest palette entries. Lookups are cached per
+ * 15-bit color, which is finer than the 256-color palette can tell apart.
+ */
+class PaletteMapper {
+  private cache = new Int16Array(1 << 15).fill(-1);
+  private palette: Uint8Array;
+
+  constructor(palette: Uint8Array) {
+    this.palette = palette;
+  }
+
+  map(data: Uint8ClampedArray, target: Uint8Array, width: number, stride: number): void {
+    for (let pixel = 0; pixel < data.length / 4; pixel++) {
+      const r = data[pixel * 4];
+      const g = data[pixel * 4 + 1];
+      const b = data[pixel * 4 + 2];
+      const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+      let index = this.cache[key];
+      if (index === -1) {
+        index = this.nearest(r, g, b);
+        this.cache[key] = index;
+      }
+      target[Math.floor(pixel / width) * stride + (pixel % width)] = index;
+    }
+  }
+
+  nearest(r: number, g: number, b: number): number {
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let index = 0; index < this.palette.length / 3; index++) {
+      const dr = r - this.palette[index * 3];
+      const dg = g - this.palette[index * 3 + 1];
+      const db = b - this.palette[index * 3 + 2];
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        best = index;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  }
+}
+
+/**
+ * Pick the frames to encode and how long each is shown
+ * @param frames Recorded frames in time order
+ * @param fps Frame rate limit
+ * @param maxFrames Frame count limit
+ * @returns Frames with delays taken from the recorded times
+ */
+export function selectGifFrames(frames: RecordedFrame[], fps: number, maxFrames: number = GIF_MAX_FRAMES): GifFrame[] {
+  const interval = 1 / Math.max(1, fps);
+  const kept: RecordedFrame[] = [];
+
+  for (const recorded of frames) {
+    if (kept.length >= maxFrames) break;
+    const last = kept[kept.length - 1];
+    // Small tolerance so frames recorded at exactly the limit are not dropped
+    if (!last || recorded.time - last.time >= interval * 0.95) {
+      kept.push(recorded);
+    }
+  }
+
+  // Delays from rounded start times, so rounding errors do not add up
+  const start = (index: number) => Math.round(kept[index].time * 100);
+  return kept.map((recorded, index) => ({
+    frame: recorded.frame,
+    delay: Math.max(
+      MIN_DELAY_CS,
+      index < kept.length - 1 ? start(index + 1) - start(index) : Math.round(interval * 100)
+    )
+  }));
+}
+
+/**
+ * Write an animated, looping GIF89a with one global palette
+ * @param width Image width
+ * @param height Image height
+ * @param palette RGB palette of at most 256 colors
+ * @param frames Palette indices of each full image and its delay in hundredths of a second
+ * @returns GIF file bytes
+ */
+export function encodeGif(
+  width: number,
+  height: number,
+  palette: Uint8Array,
+  frames: { indices: Uint8Array; delay: number }[]
+): Uint8Array {
+  const colors = Math.max(1, palette.length / 3);
+  // The color table holds 2^n entries
+  const tableBits = Math.max(1, Math.ceil(Math.log2(colors)));
+  const minCodeSize = Math.max(2, tableBits);
+  const output = new ByteWriter();
+
+  output.ascii('GIF89a');
+  output.word(width);
+  output.word(height);
+  // Global color table, 8-bit color resolution
+  output.byte(0x80 | 0x70 | (tableBits - 1));
+  output.byte(0);
+  output.byte(0);
+  output.write(palette);
+  output.write(new Uint8Array((1 << tableBits) * 3 - palette.length));
+
+  // Loop forever
+  output.write([0x21, 0xff, 0x0b]);
+  output.ascii('NETSCAPE2.0');
+  output.write([0x03, 0x01, 0x00, 0x00, 0x00]);
+
+  for (const { indices, delay } of frames) {
+    // Graphic control: leave the frame in place, no transparency
+    output.write([0x21, 0xf9, 0x04, 0x04]);
+    output.word(delay);
+    output.write([0x00, 0x00]);
+
+    output.byte(0x2c);
+    output.word(0);
+    output.word(0);
+    output.word(width);
+    output.word(height);
+    output.byte(0);
+
+    output.byte(minCodeSize);
+    const data = lzwEncode(indices, minCodeSize);
+    for (let offset = 0; offset < data.length; offset += 255) {
+      const block = data.subarray(offset, offset + 255);
+      output.byte(block.length);
+      output.write(block);
+    }
+    output.byte(0);
+  }
+
+  output.byte(0x3b);
+  return output.result();
+}
+
+/**
+ * Rasterize a recording and encode it as an animated GIF. Yields to the
+ * event loop after every frame so the page stays responsive.
+ * @param recording Recorded frames
+ * @param options Style, size and frame rate
+ * @param onProgress Called with the encoded fraction, 0 to 1
+ * @returns GIF blob
+ */
+export async function recordingToGif(
+  recording: AsciiRecording,
+  options: GifOptions,
+  onProgress?: (progress: number) => void
+): Promise<Blob> {
+  const frames = selectGifFrames(recording.frames, options.fps);
+  if (frames.length === 0) {
+    throw new Error('Recording has no frames');
+  }
+
+  const cols = Math.max(...frames.map(({ frame }) => frame.cols));
+  const rows = Math.max(...frames.map(({ frame }) => frame.rows));
+  const baseWidth = measureRasterCell(options.style, 1).width * cols;
+  const scale = Math.min(options.scale, options.maxWidth / baseWidth);
+  const cell = measureRasterCell(options.style, scale);
+  const width = Math.max(1, cols * cell.width);
+  const height = Math.max(1, rows * cell.height);
+
+  const palette = buildGifPalette(frames.map(({ frame }) => frame), options);
+  const mapper = new PaletteMapper(palette);
+  const background = parseHexColor(options.style.background);
+  const backgroundIndex = mapper.nearest(background >> 16, (background >> 8) & 0xff, background & 0xff);
+
+  const encoded: { indices: Uint8Array; delay: number }[] = [];
+  for (const { frame, delay } of frames) {
+    const canvas = rasterizeFrame(frame, options.style, scale);
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+    const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+    // Frames smaller than the largest one are padded with the background
+    const indices = new Uint8Array(width * height).fill(backgroundIndex);
+    mapper.map(image.data, indices, image.width, width);
+    encoded.push({ indices, delay });
+
+    onProgress?.(encoded.length / (frames.length + 1));
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  const bytes = encodeGif(width, height, palette, encoded);
+  onProgress?.(1);
+  return new Blob([bytes], { type: 'image/gif' });
+}
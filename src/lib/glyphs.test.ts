@@ -0,0 +1,77 @@
+import {
+  createGlyphSet,
+  matchGlyph,
+  measureGlyphCoverage,
+  renderGlyphSet
+} from './glyphs';
+
+// 2x2 coverage grids for a few recognizable shapes
+const GRIDS: Record<string, number[]> = {
+  ' ': [0, 0, 0, 0],
+  '|': [0.5, 0, 0.5, 0],
+  '-': [0.5, 0.5, 0, 0],
+  '@': [0.5, 0.5, 0.5, 0.5]
+};
+
+const createTestGlyphSet = () => createGlyphSet(
+  Object.keys(GRIDS),
+  Object.values(GRIDS).map(grid => Float32Array.from(grid)),
+  2,
+  2
+);
+
+describe('Glyph Library', () => {
+  describe('createGlyphSet', () => {
+    it('should normalize coverage so the densest sub-cell is 1', () => {
+      const glyphSet = createTestGlyphSet();
+
+      expect(Math.max(...glyphSet.coverage)).toBe(1);
+      expect(Array.from(glyphSet.coverage.slice(4, 8))).toEqual([1, 0, 1, 0]);
+    });
+
+    it('should compute mean density per glyph', () => {
+      const glyphSet = createTestGlyphSet();
+      expect(Array.from(glyphSet.density)).toEqual([0, 0.5, 0.5, 1]);
+    });
+
+    it('should handle glyphs without ink', () => {
+      const glyphSet = createGlyphSet([' '], [new Float32Array(4)], 2, 2);
+      expect(Array.from(glyphSet.coverage)).toEqual([0, 0, 0, 0]);
+    });
+  });
+
+  describe('matchGlyph', () => {
+    it('should pick the glyph with the most similar shape', () => {
+      const glyphSet = createTestGlyphSet();
+
+      expect(glyphSet.chars[matchGlyph(glyphSet, Float32Array.from([0.9, 0.1, 0.8, 0]))]).toBe('|');
+      expect(glyphSet.chars[matchGlyph(glyphSet, Float32Array.from([0.9, 0.8, 0.1, 0]))]).toBe('-');
+      expect(glyphSet.chars[matchGlyph(glyphSet, Float32Array.from([0.1, 0, 0, 0.1]))]).toBe(' ');
+      expect(glyphSet.chars[matchGlyph(glyphSet, Float32Array.from([1, 0.9, 0.9, 1]))]).toBe('@');
+    });
+
+    it('should read the target at an offset', () => {
+      const glyphSet = createTestGlyphSet();
+      const targets = Float32Array.from([0, 0, 0, 0, 1, 1, 0, 0]);
+      expect(glyphSet.chars[matchGlyph(glyphSet, targets, 4)]).toBe('-');
+    });
+  });
+
+  describe('renderGlyphSet', () => {
+    it('should rasterize every glyph to a coverage grid', () => {
+      const grids = measureGlyphCoverage(['a', 'b'], '12px monospace', 2, 3, 3);
+
+      expect(grids).toHaveLength(2);
+      expect(grids[0]).toHaveLength(9);
+    });
+
+    it('should keep glyph order and grid size', () => {
+      const glyphSet = renderGlyphSet([' ', '#'], '12px monospace', 2, 4, 6);
+
+      expect(glyphSet.chars).toEqual([' ', '#']);
+      expect(glyphSet.gridCols).toBe(4);
+      expect(glyphSet.gridRows).toBe(6);
+      expect(glyphSet.coverage).toHaveLength(2 * 4 * 6);
+    });
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Glyph rasterization and shape matching for ASCII conversion
+ */
+
+/**
+ * Font used to rasterize glyphs when none is given
+ */
+export const GLYPH_FONT = '24px monospace';
+
+/**
+ * Default sub-cell sampling grid for shape matching
+ */
+export const GLYPH_GRID = { cols: 4, rows: 6 } as const;
+
+/**
+ * Rasterized glyphs reduced to coarse ink coverage grids
+ */
+export interface GlyphSet {
+  chars: string[];
+  gridCols: number;
+  gridRows: number;
+  /** Normalized ink coverage (0-1) per sub-cell, glyph-major */
+  coverage: Float32Array;
+  /** Mean normalized coverage per glyph */
+  density: Float32Array;
+}
+
+/**
+ * Split text into user-perceived characters, so combining marks and
+ * surrogate pairs stay together in one cell
+ * @param text Text to split
+ * @returns Glyphs in order
+ */
+export function splitGlyphs(text: string): string[] {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+    return Array.from(segmenter.segment(text), segment => segment.segment);
+  }
+  return Array.from(text);
+}
+
+/**
+ * Create a canvas that works both on the main thread and in workers
+ * @param width Canvas width
+ * @param height Canvas height
+ * @returns Canvas element or OffscreenCanvas
+ */
+export function createCanvas(width: number, height: number): HTMLCanvasElement | OffscreenCanvas {
+  if (typeof document === 'undefined' && typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+/**
+ * Build a glyph set from raw coverage grids, scaling coverage so the
+ * densest sub-cell of any glyph reaches 1
+ * @param chars Glyphs
+ * @param grids Raw ink coverage per glyph, gridCols * gridRows values each
+ * @param gridCols Sub-cell columns
+ * @param gridRows Sub-cell rows
+ * @returns Normalized glyph set
+ */
+export function createGlyphSet(
+  chars: string[],
+  grids: Float32Array[],
+  gridCols: number,
+  gridRows: number
+): GlyphSet {
+  const size = gridCols * gridRows;
+  const coverage = new Float32Array(chars.length * size);
+  const density = new Float32Array(chars.length);
+
+  let max = 0;
+  for (const grid of grids) {
+    for (let i = 0; i < size; i++) {
+      max = Math.max(max, grid[i]);
+    }
+  }
+  const scale = max > 0 ? 1 / max : 0;
+
+  grids.forEach((grid, glyph) => {
+    let sum = 0;
+    for (let i = 0; i < size; i++) {
+      const value = grid[i] * scale;
+      coverage[glyph * size + i] = value;
+      sum += value;
+    }
+    density[glyph] = sum / size;
+  });
+
+  return { chars, gridCols, gridRows, coverage, density };
+}
+
+/**
+ * Rasterize glyphs in a font and measure their ink coverage per sub-cell
+ * @param chars Glyphs to render
+ * @param font CSS font shorthand
+ * @param aspect Cell height divided by cell width
+ * @param gridCols Sub-cell columns
+ * @param gridRows Sub-cell rows
+ * @returns Raw coverage (0-1) per glyph
+ */
+export function measureGlyphCoverage(
+  chars: string[],
+  font: string = GLYPH_FONT,
+  aspect: number = 2,
+  gridCols: number = GLYPH_GRID.cols,
+  gridRows: number = GLYPH_GRID.rows
+): Float32Array[] {
+  const canvas = createCanvas(1, 1);
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) {
+    throw new Error('Could not create canvas context');
+  }
+
+  ctx.font = font;
+  const cellWidth = Math.max(1, Math.ceil(ctx.measureText('M').width));
+  const cellHeight = Math.max(1, Math.round(cellWidth * aspect));
+  canvas.width = cellWidth;
+  canvas.height = cellHeight;
+
+  return chars.map(char => {
+    // Resizing resets the context state, so set it up for every glyph
+    ctx.font = font;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#fff';
+    ctx.clearRect(0, 0, cellWidth, cellHeight);
+    ctx.fillText(char, cellWidth / 2, cellHeight / 2);
+
+    const { data } = ctx.getImageData(0, 0, cellWidth, cellHeight);
+    const grid = new Float32Array(gridCols * gridRows);
+    const counts = new Uint32Array(gridCols * gridRows);
+
+    for (let y = 0; y < cellHeight; y++) {
+      const gy = Math.min(gridRows - 1, Math.floor(y * gridRows / cellHeight));
+      for (let x = 0; x < cellWidth; x++) {
+        const gx = Math.min(gridCols - 1, Math.floor(x * gridCols / cellWidth));
+        grid[gy * gridCols + gx] += data[(y * cellWidth + x) * 4 + 3] / 255;
+        counts[gy * gridCols + gx]++;
+      }
+    }
+
+    for (let i = 0; i < grid.length; i++) {
+      grid[i] = counts[i] > 0 ? grid[i] / counts[i] : 0;
+    }
+    return grid;
+  });
+}
+
+/**
+ * Rasterize glyphs once and reduce them to a glyph set for shape matching
+ * @param chars Glyphs to render
+ * @param font CSS font shorthand
+ * @param aspect Cell height divided by cell width
+ * @param gridCols Sub-cell columns
+ * @param gridRows Sub-cell rows
+ * @returns Normalized glyph set
+ */
+export function renderGlyphSet(
+  chars: string[],
+  font: string = GLYPH_FONT,
+  aspect: number = 2,
+  gridCols: number = GLYPH_GRID.cols,
+  gridRows: number = GLYPH_GRID.rows
+): GlyphSet {
+  const grids = measureGlyphCoverage(chars, font, aspect, gridCols, gridRows);
+  return createGlyphSet(chars, grids, gridCols, gridRows);
+}
+
+/**
+ * Find the glyph whose coverage grid is closest to a target grid
+ * @param glyphSet Glyph set
+ * @param target Target coverage (0-1), gridCols * gridRows values
+ * @param offset Start of the target grid inside a larger array
+ * @returns Index of the best matching glyph
+ */
+export function matchGlyph(glyphSet: GlyphSet, target: Float32Array, offset: number = 0): number {
+  const size = glyphSet.gridCols * glyphSet.gridRows;
+  let best = 0;
+  let bestDistance = Infinity;
+
+  for (let glyph = 0; glyph < glyphSet.chars.length; glyph++) {
+    const base = glyph * size;
+    let distance = 0;
+    for (let i = 0; i < size && distance < bestDistance; i++) {
+      const diff = glyphSet.coverage[base + i] - target[offset + i];
+      distance += diff * diff;
+    }
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = glyph;
+    }
+  }
+
+  return best;
+}
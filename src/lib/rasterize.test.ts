@@ -0,0 +1,103 @@
+import { canvasToPng, measureRasterCell, rasterizeFrame } from './rasterize';
+import { DEFAULT_SNAPSHOT_STYLE } from './export';
+import type { AsciiFrame, ConversionSettings } from '../types/ascii';
+
+const settings: ConversionSettings = { charset: 'simple', invert: false, colorMode: true };
+
+const createFrame = (lines: string[], colors?: number[], backgrounds?: number[]): AsciiFrame => ({
+  cols: lines[0].length,
+  rows: lines.length,
+  chars: lines.map(line => line.split('')),
+  luminance: new Uint8Array(lines.length * lines[0].length),
+  colors: colors && new Uint8ClampedArray(colors),
+  backgrounds: backgrounds && new Uint8ClampedArray(backgrounds),
+  settings,
+  timestamp: 0
+});
+
+// Context that records fills with the style they were drawn in
+const createRecordingContext = () => {
+  const calls: { method: string; args: unknown[]; fillStyle: unknown }[] = [];
+  const ctx: Record<string, unknown> = {
+    calls,
+    font: '',
+    measureText: jest.fn(() => ({ width: 6 }))
+  };
+  for (const method of ['fillRect', 'fillText']) {
+    ctx[method] = jest.fn((...args: unknown[]) => calls.push({ method, args, fillStyle: ctx.fillStyle }));
+  }
+  return ctx as unknown as CanvasRenderingContext2D & { calls: typeof calls };
+};
+
+describe('rasterizeFrame', () => {
+  const style = { ...DEFAULT_SNAPSHOT_STYLE, fontSize: 10 };
+  let ctx: ReturnType<typeof createRecordingContext>;
+
+  beforeEach(() => {
+    ctx = createRecordingContext();
+    jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(() => ctx);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should size the canvas from the measured cell and scale', () => {
+    expect(measureRasterCell(style, 2)).toEqual({ width: 6, height: 20 });
+
+    const canvas = rasterizeFrame(createFrame(['abc', 'def']), style, 2);
+    expect(canvas.width).toBe(18);
+    expect(canvas.height).toBe(40);
+    expect(ctx.font).toBe(`20px ${style.fontFamily}`);
+  });
+
+  it('should fill the theme background first', () => {
+    rasterizeFrame(createFrame(['a']), style);
+
+    expect(ctx.calls[0]).toEqual({ method: 'fillRect', args: [0, 0, 6, 10], fillStyle: style.background });
+  });
+
+  it('should draw every glyph at its cell in its own color', () => {
+    rasterizeFrame(createFrame(['a b'], [255, 0, 0, 0, 0, 0, 0, 0, 255]), style);
+
+    const texts = ctx.calls.filter(call => call.method === 'fillText');
+    expect(texts.map(call => [call.args[0], call.args[1], call.fillStyle])).toEqual([
+      ['a', 3, 'rgb(255, 0, 0)'],
+      ['b', 15, 'rgb(0, 0, 255)']
+    ]);
+  });
+
+  it('should use the theme foreground without per-cell colors', () => {
+    rasterizeFrame(createFrame(['a']), style);
+
+    expect(ctx.calls.find(call => call.method === 'fillText')!.fillStyle).toBe(style.foreground);
+  });
+
+  it('should paint cell backgrounds under the glyphs', () => {
+    rasterizeFrame(createFrame(['▀'], [255, 255, 255], [0, 0, 255]), style);
+
+    expect(ctx.calls.map(call => [call.method, call.fillStyle])).toEqual([
+      ['fillRect', style.background],
+      ['fillRect', 'rgb(0, 0, 255)'],
+      ['fillText', 'rgb(255, 255, 255)']
+    ]);
+  });
+});
+
+describe('canvasToPng', () => {
+  it('should encode a canvas element with toBlob', async () => {
+    const blob = { type: 'image/png' } as Blob;
+    const canvas = document.createElement('canvas');
+    canvas.toBlob = jest.fn(callback => callback(blob));
+
+    await expect(canvasToPng(canvas)).resolves.toBe(blob);
+    expect(canvas.toBlob).toHaveBeenCalledWith(expect.any(Function), 'image/png');
+  });
+
+  it('should reject when encoding fails', async () => {
+    const canvas = document.createElement('canvas');
+    canvas.toBlob = jest.fn(callback => callback(null));
+
+    await expect(canvasToPng(canvas)).rejects.toThrow('Could not encode PNG');
+  });
+});
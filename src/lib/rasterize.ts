@@ -0,0 +1,121 @@
+/**
+ * Frame rasterization shared by the image exporters
+ */
+
+import { cellColor } from './ascii';
+import { DEFAULT_SNAPSHOT_STYLE } from './export';
+import { createCanvas } from './glyphs';
+import type { AsciiFrame, SnapshotStyle } from '../types/ascii';
+
+type RasterCanvas = HTMLCanvasElement | OffscreenCanvas;
+type RasterContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Cell size of a rasterized frame in pixels
+ */
+export interface RasterCellSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Get a 2D context or fail loudly
+ */
+function getContext(canvas: RasterCanvas): RasterContext {
+  const ctx = canvas.getContext('2d') as RasterContext | null;
+  if (!ctx) {
+    throw new Error('Could not create canvas context');
+  }
+  return ctx;
+}
+
+/**
+ * Measure the cell size of a font, in whole pixels so cells tile exactly
+ * @param style Font
+ * @param scale Scale factor
+ * @returns Cell width and height
+ */
+export function measureRasterCell(style: SnapshotStyle, scale: number = 1): RasterCellSize {
+  const ctx = getContext(createCanvas(1, 1));
+  ctx.font = `${style.fontSize * scale}px ${style.fontFamily}`;
+  return {
+    width: Math.max(1, Math.round(ctx.measureText('M').width)),
+    height: Math.max(1, Math.round(style.fontSize * scale))
+  };
+}
+
+/**
+ * Draw a frame onto a new canvas: theme background, per-cell backgrounds,
+ * then every glyph at its cell in its own color
+ * @param frame ASCII frame
+ * @param style Font and colors
+ * @param scale Scale factor applied to the font size
+ * @returns Canvas holding the image
+ */
+export function rasterizeFrame(
+  frame: AsciiFrame,
+  style: SnapshotStyle = DEFAULT_SNAPSHOT_STYLE,
+  scale: number = 1
+): RasterCanvas {
+  const cell = measureRasterCell(style, scale);
+  const canvas = createCanvas(Math.max(1, frame.cols * cell.width), Math.max(1, frame.rows * cell.height));
+  const ctx = getContext(canvas);
+
+  ctx.fillStyle = style.background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  ctx.font = `${style.fontSize * scale}px ${style.fontFamily}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  for (let row = 0; row < frame.rows; row++) {
+    const y = row * cell.height;
+
+    frame.chars[row].forEach((char, col) => {
+      const index = row * frame.cols + col;
+      const x = col * cell.width;
+
+      if (frame.backgrounds) {
+        ctx.fillStyle = cellColor(frame.backgrounds, index);
+        ctx.fillRect(x, y, cell.width, cell.height);
+      }
+      if (char.trim() === '') return;
+
+      ctx.fillStyle = frame.colors ? cellColor(frame.colors, index) : style.foreground;
+      // maxWidth squeezes wide glyphs (CJK, emoji) into their cell
+      ctx.fillText(char, x + cell.width / 2, y + cell.height / 2, cell.width);
+    });
+  }
+
+  return canvas;
+}
+
+/**
+ * Encode a canvas as PNG
+ * @param canvas Canvas element or OffscreenCanvas
+ * @returns PNG blob
+ */
+export function canvasToPng(canvas: RasterCanvas): Promise<Blob> {
+  // HTMLCanvasElement is undefined inside workers
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type: 'image/png' });
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode PNG'))), 'image/png');
+  });
+}
+
+/**
+ * Rasterize a frame and encode it as PNG
+ * @param frame ASCII frame
+ * @param style Font and colors
+ * @param scale Scale factor applied to the font size
+ * @returns PNG blob
+ */
+export function frameToPng(
+  frame: AsciiFrame,
+  style: SnapshotStyle = DEFAULT_SNAPSHOT_STYLE,
+  scale: number = 1
+): Promise<Blob> {
+  return canvasToPng(rasterizeFrame(frame, style, scale));
+}
@@ -0,0 +1,219 @@
+import { diffFrames } from './ascii';
+import {
+  AsciiRecorder,
+  MAX_RECORDING_FRAMES,
+  frameIndexAt,
+  parseAsciicast,
+  parseRecording,
+  recordingToAsciicast,
+  serializeRecording
+} from './recording';
+import type { AsciiFrame, AsciiRecording, ConversionSettings } from '../types/ascii';
+
+const settings: ConversionSettings = { charset: 'simple', invert: false, colorMode: false };
+
+const createFrame = (lines: string[], timestamp: number, colors?: number[]): AsciiFrame => ({
+  cols: lines[0].length,
+  rows: lines.length,
+  chars: lines.map(line => line.split('')),
+  luminance: new Uint8Array(lines.length * lines[0].length),
+  colors: colors && new Uint8ClampedArray(colors),
+  settings,
+  timestamp
+});
+
+// Attach changes the way AsciiConverter does
+const convertSequence = (...frames: AsciiFrame[]): AsciiFrame[] => {
+  let previous: AsciiFrame | null = null;
+  for (const frame of frames) {
+    frame.changes = diffFrames(previous, frame);
+    previous = frame;
+  }
+  return frames;
+};
+
+describe('AsciiRecorder', () => {
+  it('should ignore frames while not recording', () => {
+    const recorder = new AsciiRecorder();
+
+    expect(recorder.capture(createFrame(['a'], 0))).toBe(false);
+    expect(recorder.frameCount).toBe(0);
+  });
+
+  it('should time frames from the first captured frame', () => {
+    const recorder = new AsciiRecorder();
+    const frames = convertSequence(createFrame(['a'], 1000), createFrame(['b'], 1250), createFrame(['c'], 1500));
+
+    recorder.start();
+    frames.forEach(frame => recorder.capture(frame));
+    const recording = recorder.stop();
+
+    expect(recording.frames.map(({ time }) => time)).toEqual([0, 0.25, 0.5]);
+    expect(recorder.isRecording).toBe(false);
+  });
+
+  it('should skip frames without changes', () => {
+    const recorder = new AsciiRecorder();
+    const frames = convertSequence(createFrame(['a'], 0), createFrame(['a'], 40), createFrame(['b'], 80));
+
+    recorder.start();
+    expect(frames.map(frame => recorder.capture(frame))).toEqual([true, false, true]);
+  });
+
+  it('should report the largest grid', () => {
+    const recorder = new AsciiRecorder();
+
+    recorder.start();
+    recorder.capture(createFrame(['ab'], 0));
+    recorder.capture(createFrame(['a', 'b', 'c'], 40));
+
+    expect(recorder.stop()).toMatchObject({ cols: 2, rows: 3 });
+  });
+
+  it('should stop capturing at the frame limit', () => {
+    const recorder = new AsciiRecorder();
+
+    recorder.start();
+    for (let i = 0; i <= MAX_RECORDING_FRAMES; i++) {
+      recorder.capture(createFrame([String(i % 10)], i));
+    }
+
+    expect(recorder.isFull).toBe(true);
+    expect(recorder.frameCount).toBe(MAX_RECORDING_FRAMES);
+  });
+});
+
+describe('recordingToAsciicast', () => {
+  it('should write an asciicast v2 header and one output event per frame', () => {
+    const recording = {
+      cols: 2,
+      rows: 2,
+      startedAt: 1700000000500,
+      frames: [
+        { time: 0, frame: createFrame(['ab', 'cd'], 0) },
+        { time: 0.125, frame: createFrame(['ab', 'cX'], 125) }
+      ]
+    };
+
+    const [header, ...events] = recordingToAsciicast(recording).trimEnd().split('\n').map(line => JSON.parse(line));
+
+    expect(header).toMatchObject({ version: 2, width: 2, height: 2, timestamp: 1700000000 });
+    expect(events).toEqual([
+      [0, 'o', '\x1b[2J\x1b[Hab\r\ncd'],
+      [0.125, 'o', '\x1b[Hab\r\ncX']
+    ]);
+  });
+
+  it('should color frames with ANSI sequences at the chosen depth', () => {
+    const recording = {
+      cols: 1,
+      rows: 1,
+      startedAt: 0,
+      frames: [{ time: 0, frame: createFrame(['a'], 0, [255, 0, 0]) }]
+    };
+
+    const [, event] = recordingToAsciicast(recording, '256').trimEnd().split('\n').map(line => JSON.parse(line));
+
+    expect(event[2]).toBe('\x1b[2J\x1b[H\x1b[38;5;196ma\x1b[0m');
+  });
+
+  it('should clear the screen when the grid size changes', () => {
+    const recording = {
+      cols: 3,
+      rows: 1,
+      startedAt: 0,
+      frames: [
+        { time: 0, frame: createFrame(['ab'], 0) },
+        { time: 1, frame: createFrame(['abc'], 1000) }
+      ]
+    };
+
+    const events = recordingToAsciicast(recording).trimEnd().split('\n').slice(1).map(line => JSON.parse(line));
+
+    expect(events[1][2]).toBe('\x1b[2J\x1b[Habc');
+  });
+});
+
+describe('serializeRecording', () => {
+  it('should round-trip characters, colors and times', () => {
+    const recording: AsciiRecording = {
+      cols: 2,
+      rows: 1,
+      startedAt: 5000,
+      frames: [
+        { time: 0, frame: createFrame(['ab'], 0, [1, 2, 3, 250, 251, 252]) },
+        { time: 0.5, frame: createFrame(['c⣿'], 500) }
+      ]
+    };
+
+    const parsed = parseRecording(serializeRecording(recording));
+
+    expect(parsed).toMatchObject({ cols: 2, rows: 1, startedAt: 5000 });
+    expect(parsed.frames.map(({ time }) => time)).toEqual([0, 0.5]);
+    expect(parsed.frames[0].frame.chars).toEqual([['a', 'b']]);
+    expect(parsed.frames[0].frame.colors).toEqual(new Uint8ClampedArray([1, 2, 3, 250, 251, 252]));
+    expect(parsed.frames[1].frame.chars).toEqual([['c', '⣿']]);
+    expect(parsed.frames[1].frame.colors).toBeUndefined();
+  });
+
+  it('should reject unknown versions', () => {
+    const text = JSON.stringify({ format: 'ascii-webcam-mirror-recording', version: 9, frames: [] });
+
+    expect(() => parseRecording(text)).toThrow('Unsupported recording version: 9');
+  });
+});
+
+describe('parseAsciicast', () => {
+  it('should read back recordings exported as asciicast', () => {
+    const recording: AsciiRecording = {
+      cols: 2,
+      rows: 2,
+      startedAt: 0,
+      frames: [
+        { time: 0, frame: createFrame(['ab', 'cd'], 0) },
+        { time: 0.25, frame: createFrame(['ef', 'gh'], 250) }
+      ]
+    };
+
+    const parsed = parseRecording(recordingToAsciicast(recording));
+
+    expect(parsed.frames.map(({ time }) => time)).toEqual([0, 0.25]);
+    expect(parsed.frames.map(({ frame }) => frame.chars)).toEqual(recording.frames.map(({ frame }) => frame.chars));
+  });
+
+  it('should follow resize events', () => {
+    const cast = [
+      JSON.stringify({ version: 2, width: 2, height: 1 }),
+      JSON.stringify([0, 'o', 'ab']),
+      JSON.stringify([1, 'r', '3x1']),
+      JSON.stringify([1.5, 'o', 'xyz'])
+    ].join('\n');
+
+    const parsed = parseAsciicast(cast);
+
+    expect(parsed).toMatchObject({ cols: 3, rows: 1 });
+    expect(parsed.frames.map(({ frame }) => frame.chars[0].join(''))).toEqual(['ab', 'xyz']);
+  });
+
+  it('should reject other asciicast versions', () => {
+    expect(() => parseAsciicast('{"version": 1, "width": 80, "height": 24, "stdout": []}')).toThrow(
+      'Unsupported asciicast file'
+    );
+  });
+});
+
+describe('frameIndexAt', () => {
+  const frames = [0, 0.5, 1].map(time => ({ time, frame: createFrame(['a'], time * 1000) }));
+
+  it('should find the last frame at or before a time', () => {
+    expect(frameIndexAt(frames, 0)).toBe(0);
+    expect(frameIndexAt(frames, 0.49)).toBe(0);
+    expect(frameIndexAt(frames, 0.5)).toBe(1);
+    expect(frameIndexAt(frames, 10)).toBe(2);
+  });
+
+  it('should clamp to the first frame', () => {
+    expect(frameIndexAt(frames, -1)).toBe(0);
+    expect(frameIndexAt([], 1)).toBe(0);
+  });
+});
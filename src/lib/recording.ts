@@ -0,0 +1,319 @@
+/**
+ * Recording of live ASCII frames, their file formats and asciicast v2 export
+ */
+
+import { frameToAnsi } from './ascii';
+import { AnsiScreen } from './ansiScreen';
+import { splitGlyphs } from './glyphs';
+import type { AnsiColorDepth, AsciiFrame, AsciiRecording, ConversionSettings, RecordedFrame } from '../types/ascii';
+
+/**
+ * Frames kept per recording, about four minutes at 24 fps
+ */
+export const MAX_RECORDING_FRAMES = 6000;
+
+/**
+ * Move the cursor to the top-left corner
+ */
+const CURSOR_HOME = '\x1b[H';
+
+/**
+ * Clear the screen, sent before the first frame and whenever the grid changes
+ */
+const CLEAR_SCREEN = '\x1b[2J';
+
+/**
+ * Marker of the native recording file format
+ */
+export const RECORDING_FORMAT = 'ascii-webcam-mirror-recording';
+
+/**
+ * Frame as stored in a native recording file
+ */
+interface SerializedFrame {
+  time: number;
+  cols: number;
+  rows: number;
+  lines: string[];
+  /** Base64 RGB bytes */
+  colors?: string;
+  backgrounds?: string;
+  settings: ConversionSettings;
+}
+
+/**
+ * Native recording file: the recorder output with frames flattened to JSON
+ */
+interface SerializedRecording {
+  format: typeof RECORDING_FORMAT;
+  version: 1;
+  cols: number;
+  rows: number;
+  startedAt: number;
+  frames: SerializedFrame[];
+}
+
+/**
+ * Collects frames from the animation loop between start() and stop().
+ * Frames that report no changed cells are skipped, since players keep
+ * showing the previous frame until the next one is due anyway.
+ */
+export class AsciiRecorder {
+  private frames: RecordedFrame[] = [];
+  private startedAt = 0;
+  private recording = false;
+
+  /**
+   * Whether frames are being captured
+   */
+  get isRecording(): boolean {
+    return this.recording;
+  }
+
+  /**
+   * Number of frames captured so far
+   */
+  get frameCount(): number {
+    return this.frames.length;
+  }
+
+  /**
+   * Whether the frame limit has been reached
+   */
+  get isFull(): boolean {
+    return this.frames.length >= MAX_RECORDING_FRAMES;
+  }
+
+  /**
+   * Start a new recording, dropping any frames captured before
+   */
+  start(): void {
+    this.frames = [];
+    this.startedAt = Date.now();
+    this.recording = true;
+  }
+
+  /**
+   * Capture a frame if recording
+   * @param frame Converted frame
+   * @returns True if the frame was stored
+   */
+  capture(frame: AsciiFrame): boolean {
+    if (!this.recording || this.isFull) {
+      return false;
+    }
+
+    const unchanged = frame.changes && !frame.changes.full && frame.changes.rows.length === 0;
+    if (unchanged && this.frames.length > 0) {
+      return false;
+    }
+
+    const first = this.frames[0];
+    const time = first ? (frame.timestamp - first.frame.timestamp) / 1000 : 0;
+    this.frames.push({ time: Math.max(0, time), frame });
+    return true;
+  }
+
+  /**
+   * Stop capturing
+   * @returns The captured frames
+   */
+  stop(): AsciiRecording {
+    this.recording = false;
+    return {
+      cols: Math.max(0, ...this.frames.map(({ frame }) => frame.cols)),
+      rows: Math.max(0, ...this.frames.map(({ frame }) => frame.rows)),
+      startedAt: this.startedAt,
+      frames: this.frames
+    };
+  }
+}
+
+/**
+ * Serialize a recording as an asciicast v2 file: a JSON header line, then
+ * one output event per frame that homes the cursor and redraws the frame
+ * with ANSI colors
+ * @param recording Recorded frames
+ * @param depth Color depth of the ANSI sequences
+ * @returns Newline-delimited JSON in asciicast v2 format
+ */
+export function recordingToAsciicast(recording: AsciiRecording, depth: AnsiColorDepth = 'truecolor'): string {
+  const header = {
+    version: 2,
+    width: recording.cols,
+    height: recording.rows,
+    timestamp: Math.floor(recording.startedAt / 1000),
+    title: 'ASCII Webcam Mirror',
+    env: { TERM: 'xterm-256color' }
+  };
+  const lines = [JSON.stringify(header)];
+
+  let previous: AsciiFrame | null = null;
+  for (const { time, frame } of recording.frames) {
+    const resized = !previous || previous.cols !== frame.cols || previous.rows !== frame.rows;
+    // Terminals need CR LF, and no newline after the last row so it does not scroll
+    const screen = frameToAnsi(frame, depth).replace(/\n$/, '').replace(/\n/g, '\r\n');
+    const data = (resized ? CLEAR_SCREEN : '') + CURSOR_HOME + screen;
+
+    lines.push(JSON.stringify([Math.round(time * 1e6) / 1e6, 'o', data]));
+    previous = frame;
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Encode bytes as base64
+ */
+function encodeBytes(bytes: Uint8ClampedArray): string {
+  let binary = '';
+  // Chunked so large frames stay below the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode base64 bytes
+ */
+function decodeBytes(text: string): Uint8ClampedArray {
+  const binary = atob(text);
+  const bytes = new Uint8ClampedArray(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Serialize a recording in the native format, which keeps the exact
+ * characters and colors of every frame
+ * @param recording Recorded frames
+ * @returns JSON text
+ */
+export function serializeRecording(recording: AsciiRecording): string {
+  const file: SerializedRecording = {
+    format: RECORDING_FORMAT,
+    version: 1,
+    cols: recording.cols,
+    rows: recording.rows,
+    startedAt: recording.startedAt,
+    frames: recording.frames.map(({ time, frame }) => ({
+      time,
+      cols: frame.cols,
+      rows: frame.rows,
+      lines: frame.chars.map(row => row.join('')),
+      colors: frame.colors && encodeBytes(frame.colors),
+      backgrounds: frame.backgrounds && encodeBytes(frame.backgrounds),
+      settings: frame.settings
+    }))
+  };
+  return JSON.stringify(file);
+}
+
+/**
+ * Rebuild a frame from its serialized form
+ */
+function deserializeFrame(frame: SerializedFrame, startedAt: number): AsciiFrame {
+  const chars = frame.lines.map(line => {
+    const row = splitGlyphs(line).slice(0, frame.cols);
+    while (row.length < frame.cols) row.push(' ');
+    return row;
+  });
+
+  return {
+    cols: frame.cols,
+    rows: frame.rows,
+    chars,
+    luminance: new Uint8Array(frame.cols * frame.rows),
+    colors: frame.colors ? decodeBytes(frame.colors) : undefined,
+    backgrounds: frame.backgrounds ? decodeBytes(frame.backgrounds) : undefined,
+    settings: frame.settings,
+    timestamp: startedAt + frame.time * 1000
+  };
+}
+
+/**
+ * Replay an asciicast v2 file on a terminal screen, capturing one frame
+ * per output event
+ * @param text Newline-delimited JSON in asciicast v2 format
+ * @returns Frames as the terminal showed them
+ */
+export function parseAsciicast(text: string): AsciiRecording {
+  const lines = text.split('\n').filter(line => line.trim() !== '');
+  const header = JSON.parse(lines[0] ?? '{}');
+  if (header.version !== 2 || !header.width || !header.height) {
+    throw new Error('Unsupported asciicast file: expected version 2 with width and height');
+  }
+
+  const screen = new AnsiScreen(header.width, header.height);
+  const startedAt = (header.timestamp ?? 0) * 1000;
+  const frames: RecordedFrame[] = [];
+  let cols = header.width;
+  let rows = header.height;
+
+  for (const line of lines.slice(1)) {
+    const [time, type, data] = JSON.parse(line) as [number, string, string];
+
+    if (type === 'r') {
+      const [width, height] = data.split('x').map(Number);
+      if (width > 0 && height > 0) {
+        screen.resize(width, height);
+        cols = Math.max(cols, width);
+        rows = Math.max(rows, height);
+      }
+    } else if (type === 'o') {
+      screen.write(data);
+      frames.push({ time, frame: screen.toFrame(startedAt + time * 1000) });
+    }
+  }
+
+  return { cols, rows, startedAt, frames };
+}
+
+/**
+ * Read a recording file in the native format or as asciicast v2
+ * @param text File content
+ * @returns Recording ready for playback
+ */
+export function parseRecording(text: string): AsciiRecording {
+  let file: Partial<SerializedRecording> | null = null;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    // Not a single JSON document, so possibly asciicast
+  }
+
+  if (file?.format !== RECORDING_FORMAT) {
+    return parseAsciicast(text);
+  }
+  if (file.version !== 1 || !Array.isArray(file.frames)) {
+    throw new Error(`Unsupported recording version: ${file.version}`);
+  }
+
+  const startedAt = file.startedAt ?? 0;
+  return {
+    cols: file.cols ?? 0,
+    rows: file.rows ?? 0,
+    startedAt,
+    frames: file.frames.map(frame => ({ time: frame.time, frame: deserializeFrame(frame, startedAt) }))
+  };
+}
+
+/**
+ * Find the frame shown at a point in time
+ * @param frames Frames in time order
+ * @param time Seconds since the first frame
+ * @returns Index of the last frame at or before the time, 0 before the first
+ */
+export function frameIndexAt(frames: RecordedFrame[], time: number): number {
+  let low = 0;
+  let high = frames.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (frames[middle].time <= time) low = middle;
+    else high = middle - 1;
+  }
+  return Math.max(0, low);
+}
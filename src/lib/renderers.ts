@@ -0,0 +1,37 @@
+/**
+ * Pluggable output for ASCII frames
+ */
+
+import { CanvasAsciiRenderer } from './canvasRenderer';
+import { DomAsciiRenderer } from './domRenderer';
+import type { AsciiFrame, RendererKind } from '../types/ascii';
+
+/**
+ * Draws ASCII frames into a container element
+ */
+export interface AsciiRenderer {
+  /**
+   * Draw a frame, redrawing only what changed since the last one
+   * @returns Indices of the rows that were redrawn
+   */
+  render(frame: AsciiFrame): number[];
+  /** Remove the drawn frame */
+  clear(): void;
+  /** Remove everything the renderer added to its container */
+  dispose(): void;
+}
+
+/**
+ * Create a renderer drawing into a container
+ * @param kind Renderer implementation
+ * @param container Element the output is placed in
+ * @returns Renderer
+ */
+export function createRenderer(kind: RendererKind, container: HTMLElement): AsciiRenderer {
+  switch (kind) {
+    case 'canvas':
+      return new CanvasAsciiRenderer(container);
+    case 'dom':
+      return new DomAsciiRenderer(container);
+  }
+}
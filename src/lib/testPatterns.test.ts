@@ -0,0 +1,86 @@
+import { CHARSETS, createBrightnessLUT, frameToText } from './ascii';
+import { TEST_PATTERNS, drawTestPattern, renderTestPattern, testPatternToAscii } from './testPatterns';
+import type { ConversionSettings } from '../types/ascii';
+
+const lut = createBrightnessLUT(CHARSETS.simple);
+const settings: ConversionSettings = { invert: false, colorMode: false, charset: 'simple' };
+
+// Gray value of a pixel
+const pixel = (image: ImageData, x: number, y: number) => image.data[(y * image.width + x) * 4];
+
+describe('drawTestPattern', () => {
+  it('should draw every pattern opaque', () => {
+    TEST_PATTERNS.forEach(({ name }) => {
+      const data = new Uint8ClampedArray(16 * 8 * 4);
+      drawTestPattern(name, data, 16, 8, 500);
+      for (let i = 3; i < data.length; i += 4) {
+        expect(data[i]).toBe(255);
+      }
+    });
+  });
+
+  it('should ramp from black to white', () => {
+    const image = renderTestPattern('ramp', 256, 2);
+    expect(pixel(image, 0, 0)).toBe(0);
+    expect(pixel(image, 128, 1)).toBe(128);
+    expect(pixel(image, 255, 0)).toBe(255);
+  });
+
+  it('should draw seven color bars over the bottom strips', () => {
+    const image = renderTestPattern('bars', 7, 12);
+    expect(Array.from(image.data.slice(0, 4))).toEqual([191, 191, 191, 255]);
+    expect(Array.from(image.data.slice(6 * 4, 6 * 4 + 3))).toEqual([0, 0, 191]);
+    // -I in the bottom-left corner
+    expect(Array.from(image.data.slice(11 * 7 * 4, 11 * 7 * 4 + 3))).toEqual([0, 33, 76]);
+  });
+
+  it('should move the circle over time', () => {
+    expect(renderTestPattern('circle', 40, 40, 0).data).not.toEqual(renderTestPattern('circle', 40, 40, 1000).data);
+    expect(renderTestPattern('circle', 40, 40, 0).data).toEqual(renderTestPattern('circle', 40, 40, 4000).data);
+  });
+
+  it('should repeat noise for the same time only', () => {
+    expect(renderTestPattern('noise', 20, 10, 100).data).toEqual(renderTestPattern('noise', 20, 10, 100).data);
+    expect(renderTestPattern('noise', 20, 10, 100).data).not.toEqual(renderTestPattern('noise', 20, 10, 200).data);
+  });
+
+  it('should scroll the text in from the right', () => {
+    // Whether each column has a lit pixel
+    const litColumns = (time: number) => {
+      const image = renderTestPattern('text', 60, 15, time);
+      return Array.from({ length: 60 }, (_, x) => Array.from({ length: 15 }, (_, y) => pixel(image, x, y) > 0).some(Boolean));
+    };
+
+    expect(litColumns(0).some(Boolean)).toBe(false);
+    expect(litColumns(500).indexOf(true)).toBeGreaterThan(0);
+    expect(litColumns(1000).indexOf(true)).toBeLessThan(litColumns(500).indexOf(true));
+  });
+});
+
+describe('testPatternToAscii', () => {
+  it('should produce a fixed checkerboard', () => {
+    // Squares of 8×8 pixels, exactly two 4×8 cells wide
+    const frame = testPatternToAscii('checkerboard', 16, 8, lut, settings);
+    expect(frameToText(frame)).toBe(
+      ['@@  @@  @@  @@  ', '  @@  @@  @@  @@'].join('\n').concat('\n').repeat(4)
+    );
+  });
+
+  it('should produce a fixed ramp', () => {
+    const frame = testPatternToAscii('ramp', 10, 1, lut, settings);
+    expect(frameToText(frame)).toBe(' .:-==+*#%\n');
+  });
+
+  it('should produce identical frames for the same time', () => {
+    TEST_PATTERNS.forEach(({ name }) => {
+      const first = testPatternToAscii(name, 24, 8, lut, settings, 1234);
+      const second = testPatternToAscii(name, 24, 8, lut, settings, 1234);
+      expect(frameToText(second)).toBe(frameToText(first));
+    });
+  });
+
+  it('should keep the bar colors in color mode', () => {
+    const frame = testPatternToAscii('bars', 7, 4, lut, { ...settings, colorMode: true });
+    expect(Array.from(frame.colors!.slice(1 * 3, 1 * 3 + 3))).toEqual([191, 191, 0]);
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Generated test patterns for working without a camera. Patterns are pure
+ * functions of size and time, so the same call always yields the same
+ * pixels and the same ASCII.
+ */
+
+import { READBACK_CELL_PIXELS, imageDataToAscii } from './ascii';
+import type { AsciiFrame, ConversionSettings, TestPatternName } from '../types/ascii';
+
+type Rgb = readonly [number, number, number];
+
+/**
+ * Patterns offered in the picker; animated ones change with time
+ */
+export const TEST_PATTERNS: readonly { name: TestPatternName; label: string; animated: boolean }[] = [
+  { name: 'ramp', label: 'Grayscale Ramp', animated: false },
+  { name: 'bars', label: 'Color Bars', animated: false },
+  { name: 'circle', label: 'Moving Circle', animated: true },
+  { name: 'checkerboard', label: 'Checkerboard', animated: false },
+  { name: 'noise', label: 'Noise', animated: true },
+  { name: 'text', label: 'Scrolling Text', animated: true }
+];
+
+/**
+ * Message of the 'text' pattern
+ */
+export const TEST_PATTERN_TEXT = 'ASCII MIRROR 0123456789';
+
+/**
+ * Rate the 'noise' pattern changes at
+ */
+const NOISE_FPS = 30;
+
+/**
+ * Time for the circle to go around once, in milliseconds
+ */
+const CIRCLE_PERIOD = 4000;
+
+/**
+ * Top row of the bars: 75% white, yellow, cyan, green, magenta, red, blue
+ */
+const BARS: readonly Rgb[] = [
+  [191, 191, 191],
+  [191, 191, 0],
+  [0, 191, 191],
+  [0, 191, 0],
+  [191, 0, 191],
+  [191, 0, 0],
+  [0, 0, 191]
+];
+
+/**
+ * Thin middle strip under the bars, their complements alternating with black
+ */
+const CASTELLATIONS: readonly Rgb[] = [
+  [0, 0, 191],
+  [19, 19, 19],
+  [191, 0, 191],
+  [19, 19, 19],
+  [0, 191, 191],
+  [19, 19, 19],
+  [191, 191, 191]
+];
+
+/**
+ * Bottom row: -I, white, +Q, black and the near-black PLUGE steps
+ */
+const BOTTOM_BARS: readonly Rgb[] = [
+  [0, 33, 76],
+  [255, 255, 255],
+  [50, 0, 106],
+  [19, 19, 19],
+  [9, 9, 9],
+  [19, 19, 19],
+  [29, 29, 29]
+];
+
+/**
+ * 3×5 block letters, rows top to bottom
+ */
+const FONT: Record<string, string> = {
+  A: '010 101 111 101 101',
+  B: '110 101 110 101 110',
+  C: '011 100 100 100 011',
+  D: '110 101 101 101 110',
+  E: '111 100 110 100 111',
+  F: '111 100 110 100 100',
+  G: '011 100 101 101 011',
+  H: '101 101 111 101 101',
+  I: '111 010 010 010 111',
+  J: '001 001 001 101 010',
+  K: '101 101 110 101 101',
+  L: '100 100 100 100 111',
+  M: '101 111 111 101 101',
+  N: '110 101 101 101 101',
+  O: '010 101 101 101 010',
+  P: '110 101 110 100 100',
+  Q: '010 101 101 110 011',
+  R: '110 101 110 101 101',
+  S: '011 100 010 001 110',
+  T: '111 010 010 010 010',
+  U: '101 101 101 101 111',
+  V: '101 101 101 101 010',
+  W: '101 101 111 111 101',
+  X: '101 101 010 101 101',
+  Y: '101 101 010 010 010',
+  Z: '111 001 010 100 111',
+  0: '111 101 101 101 111',
+  1: '010 110 010 010 111',
+  2: '110 001 010 100 111',
+  3: '110 001 010 001 110',
+  4: '101 101 111 001 001',
+  5: '111 100 110 001 110',
+  6: '011 100 111 101 111',
+  7: '111 001 010 010 010',
+  8: '111 101 111 101 111',
+  9: '111 101 111 001 110',
+  '-': '000 000 111 000 000',
+  '.': '000 000 000 000 010',
+  ':': '000 010 000 010 000',
+  '!': '010 010 010 000 010'
+};
+
+/**
+ * Small seeded PRNG (mulberry32), so noise frames are reproducible
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Whether a pixel of the text strip is lit
+ */
+function isTextPixel(text: string, x: number, y: number, scale: number): boolean {
+  const glyphX = Math.floor(x / scale);
+  const glyphY = Math.floor(y / scale);
+  // 3 columns of glyph and 1 of spacing
+  const column = glyphX % 4;
+  if (glyphY < 0 || glyphY > 4 || column === 3) return false;
+
+  const glyph = FONT[text[Math.floor(glyphX / 4)]];
+  return glyph !== undefined && glyph[glyphY * 4 + column] === '1';
+}
+
+/**
+ * Draw a pattern into RGBA pixels
+ * @param name Pattern to draw
+ * @param data RGBA pixels, width × height × 4 bytes
+ * @param width Image width
+ * @param height Image height
+ * @param time Milliseconds since the pattern started, moves animated patterns
+ */
+export function drawTestPattern(
+  name: TestPatternName,
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  time: number = 0
+): void {
+  const put = (x: number, y: number, r: number, g: number, b: number) => {
+    const offset = (y * width + x) * 4;
+    data[offset] = r;
+    data[offset + 1] = g;
+    data[offset + 2] = b;
+    data[offset + 3] = 255;
+  };
+
+  switch (name) {
+    case 'ramp':
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const value = width > 1 ? Math.round((x / (width - 1)) * 255) : 0;
+          put(x, y, value, value, value);
+        }
+      }
+      break;
+
+    case 'bars': {
+      const castellationsTop = Math.round(height * 2 / 3);
+      const bottomTop = Math.round(height * 3 / 4);
+      for (let y = 0; y < height; y++) {
+        const colors = y < castellationsTop ? BARS : y < bottomTop ? CASTELLATIONS : BOTTOM_BARS;
+        for (let x = 0; x < width; x++) {
+          const [r, g, b] = colors[Math.min(colors.length - 1, Math.floor((x / width) * colors.length))];
+          put(x, y, r, g, b);
+        }
+      }
+      break;
+    }
+
+    case 'circle': {
+      const angle = (time / CIRCLE_PERIOD) * 2 * Math.PI;
+      const radius = Math.min(width, height) * 0.15;
+      const centerX = width / 2 + Math.cos(angle) * width * 0.3;
+      const centerY = height / 2 + Math.sin(angle) * height * 0.3;
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          // Antialiased edge: coverage of the pixel by the disc
+          const distance = Math.hypot(x + 0.5 - centerX, y + 0.5 - centerY);
+          const value = Math.round(Math.min(1, Math.max(0, radius - distance + 0.5)) * 255);
+          put(x, y, value, value, value);
+        }
+      }
+      break;
+    }
+
+    case 'checkerboard': {
+      const size = Math.max(1, Math.round(Math.min(width, height) / 8));
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const value = (Math.floor(x / size) + Math.floor(y / size)) % 2 === 0 ? 255 : 0;
+          put(x, y, value, value, value);
+        }
+      }
+      break;
+    }
+
+    case 'noise': {
+      const random = createRandom(Math.floor((time * NOISE_FPS) / 1000) + 1);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const value = Math.floor(random() * 256);
+          put(x, y, value, value, value);
+        }
+      }
+      break;
+    }
+
+    case 'text': {
+      // Letters a third of the height, scrolling in from the right at five letters a second
+      const scale = Math.max(1, Math.floor(height / 15));
+      const textWidth = TEST_PATTERN_TEXT.length * 4 * scale;
+      const offset = Math.floor((time / 1000) * 5 * 4 * scale) % (textWidth + width);
+      const top = Math.floor((height - 5 * scale) / 2);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const textX = x + offset - width;
+          const value = textX >= 0 && isTextPixel(TEST_PATTERN_TEXT, textX, y - top, scale) ? 255 : 0;
+          put(x, y, value, value, value);
+        }
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Render a pattern as ImageData-shaped pixels
+ * @param name Pattern to render
+ * @param width Image width
+ * @param height Image height
+ * @param time Milliseconds since the pattern started
+ * @returns Pixels with their size
+ */
+export function renderTestPattern(name: TestPatternName, width: number, height: number, time: number = 0): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  drawTestPattern(name, data, width, height, time);
+  return { data, width, height, colorSpace: 'srgb' } as ImageData;
+}
+
+/**
+ * Convert a pattern straight to ASCII without a canvas, e.g. for test
+ * fixtures. The pattern is rendered at the converter's readback size.
+ * @param name Pattern to convert
+ * @param cols Number of columns
+ * @param rows Number of rows
+ * @param lut Brightness lookup table
+ * @param settings Conversion settings
+ * @param time Milliseconds since the pattern started
+ * @returns Converted frame
+ */
+export function testPatternToAscii(
+  name: TestPatternName,
+  cols: number,
+  rows: number,
+  lut: string[],
+  settings: ConversionSettings,
+  time: number = 0
+): AsciiFrame {
+  const imageData = renderTestPattern(name, cols * READBACK_CELL_PIXELS.x, rows * READBACK_CELL_PIXELS.y, time);
+  return imageDataToAscii(imageData, cols, rows, lut, settings);
+}
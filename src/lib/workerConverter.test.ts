@@ -0,0 +1,156 @@
+import { WorkerAsciiConverter, supportsWorkerConversion } from './workerConverter';
+import { AsciiConverter, createBrightnessLUT } from './ascii';
+import type { AsciiFrame, ConversionSettings, WorkerConvertRequest } from '../types/ascii';
+
+// Mapped from './ascii.worker?worker' in jest.config.js
+const WorkerMock = jest.requireActual('../__mocks__/workerMock.js');
+
+const settings: ConversionSettings = { invert: false, colorMode: false, charset: 'simple' };
+const lut = createBrightnessLUT(' .:-=+*#%@');
+const video = document.createElement('video');
+const source = { image: video, width: 640, height: 480 };
+
+const frameFor = (request: WorkerConvertRequest): AsciiFrame => ({
+  cols: request.cols,
+  rows: request.rows,
+  chars: [['@']],
+  luminance: new Uint8Array(1),
+  settings: request.settings,
+  timestamp: request.timestamp
+});
+
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('WorkerAsciiConverter', () => {
+  describe('main thread fallback', () => {
+    it('should not use a worker without Worker support', () => {
+      expect(supportsWorkerConversion()).toBe(false);
+      expect(new WorkerAsciiConverter(jest.fn()).usesWorker).toBe(false);
+    });
+
+    it('should convert synchronously', () => {
+      const onFrame = jest.fn();
+      const converter = new WorkerAsciiConverter(onFrame);
+
+      expect(converter.submit(source, 4, 3, lut, settings)).toBe(true);
+      expect(onFrame).toHaveBeenCalledTimes(1);
+      expect(onFrame.mock.calls[0][0]).toMatchObject({ cols: 4, rows: 3 });
+      expect(converter.isBusy).toBe(false);
+    });
+
+    it('should reset the converter history', () => {
+      const resetTemporal = jest.spyOn(AsciiConverter.prototype, 'resetTemporal');
+      new WorkerAsciiConverter(jest.fn()).resetTemporal();
+
+      expect(resetTemporal).toHaveBeenCalledTimes(1);
+      resetTemporal.mockRestore();
+    });
+  });
+
+  describe('worker pipeline', () => {
+    const close = jest.fn();
+
+    beforeEach(() => {
+      WorkerMock.instances.length = 0;
+      close.mockClear();
+      Object.assign(globalThis, {
+        Worker: WorkerMock,
+        OffscreenCanvas: class {},
+        createImageBitmap: jest.fn(() => Promise.resolve({ width: 640, height: 480, close }))
+      });
+    });
+
+    afterEach(() => {
+      const globals = globalThis as Record<string, unknown>;
+      delete globals.Worker;
+      delete globals.OffscreenCanvas;
+      delete globals.createImageBitmap;
+    });
+
+    it('should post bitmaps to the worker', async () => {
+      const converter = new WorkerAsciiConverter(jest.fn());
+      const worker = WorkerMock.instances[0];
+
+      expect(converter.usesWorker).toBe(true);
+      converter.submit(source, 4, 3, lut, settings);
+      await flushPromises();
+
+      expect(worker.messages).toHaveLength(1);
+      expect(worker.messages[0]).toMatchObject({ id: 1, cols: 4, rows: 3, lut, settings });
+    });
+
+    it('should drop frames while a conversion is in flight', async () => {
+      const onFrame = jest.fn();
+      const converter = new WorkerAsciiConverter(onFrame);
+      const worker = WorkerMock.instances[0];
+
+      expect(converter.submit(source, 4, 3, lut, settings)).toBe(true);
+      expect(converter.submit(source, 4, 3, lut, settings)).toBe(false);
+      await flushPromises();
+      expect(worker.messages).toHaveLength(1);
+
+      worker.onmessage({ data: { id: 1, frame: frameFor(worker.messages[0]) } });
+      expect(onFrame).toHaveBeenCalledTimes(1);
+      expect(converter.isBusy).toBe(false);
+      expect(converter.submit(source, 4, 3, lut, settings)).toBe(true);
+    });
+
+    it('should report worker conversion errors', async () => {
+      const onError = jest.fn();
+      const converter = new WorkerAsciiConverter(jest.fn(), onError);
+      const worker = WorkerMock.instances[0];
+
+      converter.submit(source, 4, 3, lut, settings);
+      await flushPromises();
+      worker.onmessage({ data: { id: 1, error: 'boom' } });
+
+      expect(onError).toHaveBeenCalledWith(new Error('boom'));
+      expect(converter.isBusy).toBe(false);
+    });
+
+    it('should ask the worker to reset and drop the frame in flight', async () => {
+      const onFrame = jest.fn();
+      const converter = new WorkerAsciiConverter(onFrame);
+      const worker = WorkerMock.instances[0];
+
+      converter.submit(source, 4, 3, lut, settings);
+      await flushPromises();
+      converter.resetTemporal();
+
+      expect(worker.messages[1]).toEqual({ reset: true });
+      expect(converter.isBusy).toBe(false);
+      worker.onmessage({ data: { id: 1, frame: frameFor(worker.messages[0]) } });
+      expect(onFrame).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the main thread when the worker fails', () => {
+      const onFrame = jest.fn();
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const converter = new WorkerAsciiConverter(onFrame);
+      const worker = WorkerMock.instances[0];
+
+      worker.onerror({ message: 'failed to load' });
+
+      expect(worker.terminated).toBe(true);
+      expect(converter.usesWorker).toBe(false);
+      converter.submit(source, 4, 3, lut, settings);
+      expect(onFrame).toHaveBeenCalledTimes(1);
+      warn.mockRestore();
+    });
+
+    it('should ignore frames after dispose', async () => {
+      const onFrame = jest.fn();
+      const converter = new WorkerAsciiConverter(onFrame);
+      const worker = WorkerMock.instances[0];
+
+      converter.submit(source, 4, 3, lut, settings);
+      converter.dispose();
+      await flushPromises();
+
+      expect(worker.terminated).toBe(true);
+      expect(worker.messages).toHaveLength(0);
+      expect(close).toHaveBeenCalled();
+      expect(converter.submit(source, 4, 3, lut, settings)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Off-main-thread frame conversion with back-pressure
+ */
+
+import AsciiWorker from './ascii.worker?worker';
+import { AsciiConverter } from './ascii';
+import type {
+  AsciiFrame,
+  ConversionSettings,
+  SourceFrame,
+  WorkerConvertRequest,
+  WorkerConvertResponse,
+  WorkerResetRequest
+} from '../types/ascii';
+
+/**
+ * Check whether frames can be converted in a worker
+ * @returns True if Worker, OffscreenCanvas and createImageBitmap are available
+ */
+export function supportsWorkerConversion(): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof createImageBitmap === 'function'
+  );
+}
+
+/**
+ * Converts source frames in a worker, one at a time. Frames submitted while a
+ * conversion is in flight are dropped, so a slow conversion lowers the frame
+ * rate instead of building up latency. Falls back to synchronous conversion
+ * on the main thread when workers are unavailable or fail to start.
+ */
+export class WorkerAsciiConverter {
+  private worker: Worker | null = null;
+  private fallback: AsciiConverter | null = null;
+  private onFrame: (frame: AsciiFrame) => void;
+  private onError: (error: Error) => void;
+  private pendingId: number | null = null;
+  private nextId = 0;
+  private disposed = false;
+
+  /**
+   * @param onFrame Called with every converted frame
+   * @param onError Called when a frame fails to convert
+   * @param useWorker Set to false to always convert on the main thread
+   */
+  constructor(
+    onFrame: (frame: AsciiFrame) => void,
+    onError: (error: Error) => void = error => console.error('Conversion error:', error),
+    useWorker: boolean = true
+  ) {
+    this.onFrame = onFrame;
+    this.onError = onError;
+
+    if (useWorker && supportsWorkerConversion()) {
+      try {
+        this.worker = new AsciiWorker();
+        this.worker.onmessage = (event: MessageEvent<WorkerConvertResponse>) => this.handleResponse(event.data);
+        this.worker.onerror = (event: ErrorEvent) => {
+          console.warn('Conversion worker failed, converting on the main thread:', event.message);
+          this.stopWorker();
+        };
+      } catch (error) {
+        console.warn('Could not start conversion worker:', error);
+        this.worker = null;
+      }
+    }
+
+    if (!this.worker) {
+      this.fallback = new AsciiConverter();
+    }
+  }
+
+  /**
+   * Whether conversion runs in a worker
+   */
+  get usesWorker(): boolean {
+    return this.worker !== null;
+  }
+
+  /**
+   * Whether a frame is still being converted
+   */
+  get isBusy(): boolean {
+    return this.pendingId !== null;
+  }
+
+  /**
+   * Submit a frame for conversion
+   * @param frame Frame from a frame source
+   * @param cols Number of columns
+   * @param rows Number of rows
+   * @param lut Brightness lookup table
+   * @param settings Conversion settings
+   * @returns False if the frame was dropped because a conversion is in flight
+   */
+  submit(
+    frame: SourceFrame,
+    cols: number,
+    rows: number,
+    lut: string[],
+    settings: ConversionSettings
+  ): boolean {
+    if (this.disposed || this.pendingId !== null) {
+      return false;
+    }
+
+    if (!this.worker) {
+      try {
+        this.onFrame(this.getFallback().convertFrame(frame, cols, rows, lut, settings));
+      } catch (error) {
+        this.onError(error as Error);
+      }
+      return true;
+    }
+
+    const id = ++this.nextId;
+    const timestamp = performance.now();
+    this.pendingId = id;
+
+    createImageBitmap(frame.image, frame.x ?? 0, frame.y ?? 0, frame.width, frame.height)
+      .then(bitmap => {
+        if (!this.worker || this.pendingId !== id) {
+          bitmap.close();
+          return;
+        }
+        const request: WorkerConvertRequest = { id, bitmap, cols, rows, lut, settings, timestamp };
+        this.worker.postMessage(request, [bitmap]);
+      })
+      .catch(error => {
+        if (this.pendingId === id) this.pendingId = null;
+        this.onError(error as Error);
+      });
+
+    return true;
+  }
+
+  /**
+   * Forget previous frames, e.g. after switching to a different source.
+   * A frame still in flight belongs to the old source and is dropped.
+   */
+  resetTemporal(): void {
+    this.pendingId = null;
+    if (this.worker) {
+      const request: WorkerResetRequest = { reset: true };
+      this.worker.postMessage(request);
+    }
+    this.fallback?.resetTemporal();
+  }
+
+  /**
+   * Stop the worker and ignore frames still in flight
+   */
+  dispose(): void {
+    this.disposed = true;
+    this.worker?.terminate();
+    this.worker = null;
+    this.pendingId = null;
+  }
+
+  private handleResponse(response: WorkerConvertResponse): void {
+    if (response.id !== this.pendingId) return;
+    this.pendingId = null;
+
+    if ('error' in response) {
+      this.onError(new Error(response.error));
+    } else {
+      this.onFrame(response.frame);
+    }
+  }
+
+  private stopWorker(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.pendingId = null;
+  }
+
+  private getFallback(): AsciiConverter {
+    this.fallback ??= new AsciiConverter();
+    return this.fallback;
+  }
+}
@@ -0,0 +1,86 @@
+import { crc32, createZip } from './zip';
+
+const bytesOf = (text: string) => Uint8Array.from(Array.from(text, char => char.charCodeAt(0)));
+// jsdom has no TextDecoder
+const decodeUtf8 = (bytes: Uint8Array) =>
+  decodeURIComponent(Array.from(bytes, byte => `%${byte.toString(16).padStart(2, '0')}`).join(''));
+
+// Reference reader: files listed by the central directory, checked against their local headers
+const readZip = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const files: { name: string; data: Uint8Array; crc: number; flags: number }[] = [];
+
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const local = view.getUint32(offset + 42, true);
+    const name = decodeUtf8(bytes.slice(offset + 46, offset + 46 + nameLength));
+
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    expect(view.getUint16(local + 8, true)).toBe(0);
+    const dataStart = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    files.push({ name, data: bytes.slice(dataStart, dataStart + size), crc, flags: view.getUint16(local + 6, true) });
+    offset += 46 + nameLength;
+  }
+  return files;
+};
+
+describe('crc32', () => {
+  it('should match the standard check value', () => {
+    expect(crc32(bytesOf('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('should be zero for no data', () => {
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  it('should store every entry with its checksum', () => {
+    const zip = createZip([
+      { name: 'a.txt', content: 'hello\n' },
+      { name: 'dir/b.bin', content: new Uint8Array([0, 1, 2, 255]) }
+    ]);
+    const files = readZip(zip);
+
+    expect(files.map(file => file.name)).toEqual(['a.txt', 'dir/b.bin']);
+    expect(Array.from(files[0].data)).toEqual(Array.from(bytesOf('hello\n')));
+    expect(Array.from(files[1].data)).toEqual([0, 1, 2, 255]);
+    files.forEach(file => expect(file.crc).toBe(crc32(file.data)));
+  });
+
+  it('should write names and text as UTF-8', () => {
+    const [file] = readZip(createZip([{ name: 'тест.txt', content: '░▒▓█' }]));
+
+    expect(file.name).toBe('тест.txt');
+    expect(file.flags & 0x0800).toBe(0x0800);
+    expect(decodeUtf8(file.data)).toBe('░▒▓█');
+    expect(Array.from(file.data.slice(0, 3))).toEqual([0xe2, 0x96, 0x91]);
+  });
+
+  it('should encode characters outside the BMP in four bytes', () => {
+    const [file] = readZip(createZip([{ name: 'a.txt', content: '🙂' }]));
+    expect(Array.from(file.data)).toEqual([0xf0, 0x9f, 0x99, 0x82]);
+  });
+
+  it('should record the modification time in DOS format', () => {
+    const zip = createZip([{ name: 'a.txt', content: '' }], new Date(2024, 4, 17, 13, 45, 30));
+    const view = new DataView(zip.buffer);
+
+    expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15);
+    expect(view.getUint16(12, true)).toBe((44 << 9) | (5 << 5) | 17);
+  });
+
+  it('should produce an empty archive without entries', () => {
+    const zip = createZip([]);
+    expect(zip.length).toBe(22);
+    expect(readZip(zip)).toEqual([]);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * ZIP archives built in the browser. Entries are stored uncompressed:
+ * ASCII text is small and every unzip tool reads stored entries.
+ */
+
+/**
+ * A file to put in an archive
+ */
+export interface ZipEntry {
+  /** Path inside the archive, '/'-separated */
+  name: string;
+  /** File content; strings are written as UTF-8 */
+  content: string | Uint8Array;
+}
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+
+/**
+ * General purpose flag: file names are UTF-8
+ */
+const UTF8_FLAG = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 (IEEE 802.3) as used by ZIP
+ * @param data Bytes to checksum
+ * @returns Unsigned checksum
+ */
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * UTF-8 bytes of a string, without relying on TextEncoder
+ */
+function utf8Encode(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Date and time in MS-DOS format, which has two-second precision and
+ * starts in 1980
+ */
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+/**
+ * Build a ZIP archive
+ * @param entries Files in archive order
+ * @param modified Modification time recorded for every entry
+ * @returns Archive bytes
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array {
+  const stamp = dosDateTime(modified);
+  const files = entries.map(entry => {
+    const data = typeof entry.content === 'string' ? utf8Encode(entry.content) : entry.content;
+    return { name: utf8Encode(entry.name), data, crc: crc32(data) };
+  });
+
+  const localSize = files.reduce((sum, file) => sum + LOCAL_HEADER_SIZE + file.name.length + file.data.length, 0);
+  const centralSize = files.reduce((sum, file) => sum + CENTRAL_HEADER_SIZE + file.name.length, 0);
+  const bytes = new Uint8Array(localSize + centralSize + END_OF_CENTRAL_DIRECTORY_SIZE);
+  const view = new DataView(bytes.buffer);
+
+  let offset = 0;
+  const localOffsets: number[] = [];
+
+  // Fields shared by the local and central headers, from "version needed" to "name length"
+  const writeCommon = (at: number, file: (typeof files)[number]) => {
+    view.setUint16(at, 10, true);
+    view.setUint16(at + 2, UTF8_FLAG, true);
+    view.setUint16(at + 4, 0, true);
+    view.setUint16(at + 6, stamp.time, true);
+    view.setUint16(at + 8, stamp.date, true);
+    view.setUint32(at + 10, file.crc, true);
+    view.setUint32(at + 14, file.data.length, true);
+    view.setUint32(at + 18, file.data.length, true);
+    view.setUint16(at + 22, file.name.length, true);
+  };
+
+  for (const file of files) {
+    localOffsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true);
+    writeCommon(offset + 4, file);
+    view.setUint16(offset + 28, 0, true);
+    bytes.set(file.name, offset + LOCAL_HEADER_SIZE);
+    bytes.set(file.data, offset + LOCAL_HEADER_SIZE + file.name.length);
+    offset += LOCAL_HEADER_SIZE + file.name.length + file.data.length;
+  }
+
+  const centralStart = offset;
+  files.forEach((file, index) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true);
+    writeCommon(offset + 6, file);
+    // Extra, comment, disk, internal and external attributes stay zero
+    view.setUint32(offset + 42, localOffsets[index], true);
+    bytes.set(file.name, offset + CENTRAL_HEADER_SIZE);
+    offset += CENTRAL_HEADER_SIZE + file.name.length;
+  });
+
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, centralStart, true);
+
+  return bytes;
+}
@@ -1,4 +1,4 @@
-import type { CharsetName, AsciiMirrorSettings } from './ascii';
+import type { CharsetName, AsciiMirrorSettings, AsciiFrame, ConversionSettings } from './ascii';
 
 describe('ASCII Types', () => {
   describe('CharsetName', () => {
@@ -149,4 +149,28 @@ describe('ASCII Types', () => {
       expect(typeof validSettings.isPaused).toBe('boolean');
     });
   });
+
+  describe('AsciiFrame', () => {
+    it('should carry grid, luminance and settings', () => {
+      const settings: ConversionSettings = {
+        invert: false,
+        colorMode: true,
+        charset: 'simple'
+      };
+      const frame: AsciiFrame = {
+        cols: 2,
+        rows: 1,
+        chars: [['@', ' ']],
+        luminance: new Uint8Array([255, 0]),
+        colors: new Uint8ClampedArray([255, 255, 255, 0, 0, 0]),
+        settings,
+        timestamp: 0
+      };
+
+      expect(frame.chars[0]).toHaveLength(frame.cols);
+      expect(frame.luminance).toHaveLength(frame.cols * frame.rows);
+      expect(frame.colors).toHaveLength(frame.cols * frame.rows * 3);
+      expect(frame.settings.charset).toBe('simple');
+    });
+  });
 });
@@ -2,13 +2,333 @@
  * ASCII types and interfaces
  */
 
-export type CharsetName = 'simple' | 'detailed' | 'blocks';
+/**
+ * Built-in character sets; 'braille' and 'halfblock' pack several
+ * image samples into each character instead of using a brightness ramp
+ */
+export type BuiltinCharsetName = 'simple' | 'detailed' | 'blocks' | 'braille' | 'halfblock';
 
-export interface AsciiMirrorSettings {
-  cols: number;
+/**
+ * Built-in charset or a user-defined one saved by id
+ */
+export type CharsetName = BuiltinCharsetName | `custom:${string}`;
+
+/**
+ * User-defined character ramp, ordered from least to most ink
+ */
+export interface CustomCharset {
+  id: `custom:${string}`;
+  name: string;
+  chars: string;
+}
+
+/**
+ * How characters are chosen for each cell
+ * - brightness: average luminance through the charset ramp
+ * - edges: directional glyphs on strong edges, brightness ramp elsewhere
+ * - glyph: glyph whose rendered shape best matches the cell
+ */
+export type ConversionMode = 'brightness' | 'edges' | 'glyph';
+
+/**
+ * Dithering applied when quantizing luminance to charset levels
+ */
+export type DitherAlgorithm = 'none' | 'floyd-steinberg' | 'atkinson' | 'bayer';
+
+/**
+ * Automatic tone correction based on the frame histogram
+ * - stretch: map the 1st..99th percentile onto the full range
+ * - equalize: flatten the histogram
+ */
+export type AutoLevelsMode = 'off' | 'stretch' | 'equalize';
+
+/**
+ * Tone adjustments applied to luminance before quantization
+ */
+export interface ImageAdjustments {
+  /** Offset, -100..100 */
+  brightness: number;
+  /** -100..100, 0 leaves contrast unchanged */
+  contrast: number;
+  /** Gamma, values above 1 brighten midtones */
+  gamma: number;
+  autoLevels: AutoLevelsMode;
+}
+
+/**
+ * Frame-to-frame smoothing of cell luminance for live video
+ */
+export interface TemporalStabilization {
+  enabled: boolean;
+  /** Weight of the previous smoothed value, 0 (off) to 0.95 */
+  smoothing: number;
+  /** Luminance change (0-255) treated as motion; the cell jumps to the new value */
+  motionThreshold: number;
+  /** Luminance margin (0-255) a cell must cross beyond its character band to switch */
+  hysteresis: number;
+}
+
+/**
+ * Settings that affect how a single image is converted
+ */
+export interface ConversionSettings {
   invert: boolean;
   colorMode: boolean;
   charset: CharsetName;
+  /** Character selection strategy, defaults to 'brightness' */
+  mode?: ConversionMode;
+  /** Dithering before character lookup, defaults to 'none' */
+  dither?: DitherAlgorithm;
+  /** Tone adjustments, none when omitted */
+  adjustments?: ImageAdjustments;
+  /** Temporal stabilization between frames, off when omitted */
+  stabilization?: TemporalStabilization;
+}
+
+/**
+ * How frames are drawn on screen
+ * - dom: one text element per row
+ * - canvas: glyphs from a pre-rendered atlas on a 2D canvas
+ */
+export type RendererKind = 'dom' | 'canvas';
+
+export interface AsciiMirrorSettings extends ConversionSettings {
+  cols: number;
   fpsLimit: number;
   isPaused: boolean;
+  /** Output renderer, defaults to 'dom' */
+  renderer?: RendererKind;
+}
+
+/**
+ * One converted image as a grid of cells
+ */
+export interface AsciiFrame {
+  cols: number;
+  rows: number;
+  /** Characters indexed as chars[row][col] */
+  chars: string[][];
+  /** Per-cell luminance (0-255), row-major */
+  luminance: Uint8Array;
+  /** Per-cell RGB triplets, row-major; only present in color mode */
+  colors?: Uint8ClampedArray;
+  /** Per-cell background RGB triplets, for modes that paint two colors per cell */
+  backgrounds?: Uint8ClampedArray;
+  /** Settings the frame was converted with */
+  settings: ConversionSettings;
+  /** Conversion time in milliseconds (performance.now) */
+  timestamp: number;
+  /** Cells changed since the previous frame of the same converter */
+  changes?: FrameChanges;
+}
+
+/**
+ * Cells that differ between two consecutive frames
+ */
+export interface FrameChanges {
+  /** Position of the frame in its converter's output */
+  sequence: number;
+  /** Sequence number of the frame the changes are relative to, -1 if none */
+  since: number;
+  /** Grid size or color layout changed, every cell must be redrawn */
+  full: boolean;
+  /** Rows with at least one changed cell, ascending */
+  rows: number[];
+  /** Changed cell indices (row * cols + col), ascending; empty when full */
+  cells: Uint32Array;
+}
+
+/**
+ * Color depth of ANSI escape-sequence output
+ * - truecolor: 24-bit RGB
+ * - 256: xterm 256-color palette
+ * - 16: basic and bright terminal colors
+ */
+export type AnsiColorDepth = 'truecolor' | '256' | '16';
+
+/**
+ * Snapshot export format: plain text, ANSI-colored text or a standalone
+ * HTML page or SVG image
+ */
+export type ExportFormat = 'text' | `ansi-${AnsiColorDepth}` | 'html' | 'svg';
+
+/**
+ * Color scheme of exported snapshots
+ * - terminal: green on near-black, like the on-screen display
+ * - dark: white on black
+ * - light: black on white
+ */
+export type SnapshotTheme = 'terminal' | 'dark' | 'light';
+
+/**
+ * Look of exported snapshots that carry their own styling
+ */
+export interface SnapshotStyle {
+  /** CSS font family */
+  fontFamily: string;
+  /** Font size in pixels, also the height of a cell */
+  fontSize: number;
+  /** Text color of frames without per-cell colors */
+  foreground: string;
+  background: string;
+}
+
+/**
+ * A frame captured while recording
+ */
+export interface RecordedFrame {
+  /** Seconds since the first frame of the recording */
+  time: number;
+  frame: AsciiFrame;
+}
+
+/**
+ * Timestamped frames captured from the live mirror
+ */
+export interface AsciiRecording {
+  /** Largest grid among the frames */
+  cols: number;
+  rows: number;
+  /** Recording start (Date.now) */
+  startedAt: number;
+  /** Frames in time order; unchanged frames are not stored */
+  frames: RecordedFrame[];
+}
+
+/**
+ * Animated GIF export of a recording
+ */
+export interface GifOptions {
+  /** Font and colors of the rasterized frames */
+  style: SnapshotStyle;
+  /** Scale factor applied to the font size, reduced to fit maxWidth */
+  scale: number;
+  /** Frames closer together than 1/fps are dropped */
+  fps: number;
+  /** Image width limit in pixels */
+  maxWidth: number;
+}
+
+/**
+ * A run of consecutive cells in a row that share one color
+ */
+export interface ColorRun {
+  text: string;
+  /** Number of cells the run covers */
+  cells: number;
+  color: string;
+  background?: string;
+}
+
+/**
+ * Kind of input the mirror converts
+ */
+export type FrameSourceKind = 'webcam' | 'screen' | 'image' | 'video' | 'canvas' | 'pattern';
+
+/**
+ * Generated test images
+ * - ramp: horizontal grayscale ramp
+ * - bars: SMPTE-style color bars
+ * - circle: disc moving on a circular path
+ * - checkerboard: black and white squares
+ * - noise: gray noise, new on every frame
+ * - text: scrolling block-letter message
+ */
+export type TestPatternName = 'ramp' | 'bars' | 'circle' | 'checkerboard' | 'noise' | 'text';
+
+/**
+ * Camera direction on devices with several cameras
+ * - user: front (selfie) camera
+ * - environment: back camera
+ */
+export type CameraFacingMode = 'user' | 'environment';
+
+/**
+ * A video input reported by enumerateDevices
+ */
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+/**
+ * Camera choice and capture format, remembered between visits
+ */
+export interface CameraPreferences {
+  /** Explicit camera, or null for the browser's default */
+  deviceId: string | null;
+  width: number;
+  height: number;
+  frameRate: number;
+  /** Used only without an explicit camera */
+  facingMode: CameraFacingMode;
+}
+
+/**
+ * A frame ready for conversion: anything drawable with the pixel area to
+ * convert
+ */
+export interface SourceFrame {
+  image: CanvasImageSource;
+  /** Size of the area to convert */
+  width: number;
+  height: number;
+  /** Top-left corner of the area, 0 when omitted */
+  x?: number;
+  y?: number;
+}
+
+/**
+ * Part of a frame to convert, as fractions of its width and height
+ */
+export interface CropRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Frame posted to the conversion worker
+ */
+export interface WorkerConvertRequest {
+  id: number;
+  bitmap: ImageBitmap;
+  cols: number;
+  rows: number;
+  lut: string[];
+  settings: ConversionSettings;
+  /** Capture time on the main thread (performance.now) */
+  timestamp: number;
+}
+
+/**
+ * Asks the conversion worker to forget previous frames
+ */
+export interface WorkerResetRequest {
+  reset: true;
+}
+
+/**
+ * Message posted to the conversion worker
+ */
+export type WorkerRequest = WorkerConvertRequest | WorkerResetRequest;
+
+/**
+ * Conversion worker reply: a converted frame or an error message
+ */
+export type WorkerConvertResponse =
+  | { id: number; frame: AsciiFrame }
+  | { id: number; error: string };
+
+/**
+ * An image converted in a batch
+ */
+export interface BatchImage {
+  id: number;
+  /** Original file name */
+  name: string;
+  /** Converted frame, null when the image could not be read */
+  frame: AsciiFrame | null;
+  error: string | null;
 }